@@ -9,14 +9,19 @@
  * https://github.com/code-yeongyu/oh-my-opencode
  */
 
+import { createHash, randomBytes } from "node:crypto"
 import * as fs from "node:fs/promises"
 import * as os from "node:os"
 import * as path from "node:path"
-import { type Plugin, type ToolContext, tool } from "@opencode-ai/plugin"
+import { type Plugin, type PluginOptions, type ToolContext, tool } from "@opencode-ai/plugin"
 import type { Event, Message, Part, TextPart } from "@opencode-ai/sdk"
 import { adjectives, animals, colors, uniqueNamesGenerator } from "unique-names-generator"
 import { getProjectId } from "./kdco-primitives/get-project-id"
+import { logWarn } from "./kdco-primitives/log-warn"
+import { Mutex } from "./kdco-primitives/mutex"
+import { getTempDir } from "./kdco-primitives/temp"
 import type { OpencodeClient } from "./kdco-primitives/types"
+import { TimeoutError, withTimeout } from "./kdco-primitives/with-timeout"
 
 // ==========================================
 // READABLE ID GENERATION
@@ -38,11 +43,111 @@ function generateReadableId(): string {
 interface GeneratedMetadata {
 	title: string
 	description: string
+	/** Lowercase kebab-case topics, e.g. "oauth", "rate-limiting" */
+	tags: string[]
+	/** Libraries, files and APIs the result mentions */
+	entities: string[]
+}
+
+const METADATA_MAX_TAGS = 6
+const METADATA_MAX_ENTITIES = 10
+const METADATA_MAX_ENTITY_LENGTH = 80
+
+function normalizeTag(tag: string): string {
+	return tag
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, "-")
+		.replace(/^-+|-+$/g, "")
+}
+
+/**
+ * Parse a generated tag/entity list at boundary.
+ * Fail-safe: Non-string entries are dropped and the list is deduplicated and capped
+ */
+function normalizeMetadataList(
+	value: unknown,
+	max: number,
+	normalize: (item: string) => string,
+): string[] {
+	if (!Array.isArray(value)) return []
+	const items = value
+		.filter((item): item is string => typeof item === "string")
+		.map(normalize)
+		.filter((item) => item.length > 0 && item.length <= METADATA_MAX_ENTITY_LENGTH)
+	return Array.from(new Set(items)).slice(0, max)
+}
+
+/**
+ * Inline code spans are usually library, file or API names
+ */
+function extractCodeEntities(content: string): string[] {
+	const spans = Array.from(content.matchAll(/`([^`\n]{2,80})`/g), (match) => match[1])
+	return normalizeMetadataList(spans, METADATA_MAX_ENTITIES, (span) => span.trim())
+}
+
+/**
+ * Run a one-shot prompt on small_model in a throwaway child session.
+ * Returns the response text, or null when small_model is unavailable or returns no text.
+ */
+async function promptSmallModel(
+	client: OpencodeClient,
+	input: { label: string; title: string; prompt: string; parentID: string; timeoutMs: number },
+	debugLog: (msg: string) => Promise<void>,
+): Promise<string | null> {
+	const { label } = input
+
+	// Get config to check for small_model
+	const config = await client.config.get()
+	const configData = config.data as { small_model?: string } | undefined
+
+	if (!configData?.small_model) {
+		await debugLog(`${label}: No small_model configured, using fallback`)
+		return null
+	}
+
+	await debugLog(`${label}: Using small_model ${configData.small_model}`)
+
+	const session = await client.session.create({
+		body: {
+			title: input.title,
+			parentID: input.parentID,
+		},
+	})
+
+	if (!session.data?.id) {
+		await debugLog(`${label}: Failed to create session`)
+		return null
+	}
+
+	// Await prompt response directly with timeout safety net
+	const result = await Promise.race([
+		client.session.prompt({
+			path: { id: session.data.id },
+			body: {
+				parts: [{ type: "text", text: input.prompt }],
+			},
+		}),
+		new Promise<never>((_, reject) =>
+			setTimeout(
+				() => reject(new Error(`Prompt timeout after ${input.timeoutMs / 1000}s`)),
+				input.timeoutMs,
+			),
+		),
+	])
+
+	// Extract text from the response
+	const responseParts = result.data?.parts as TextPart[] | undefined
+	const textPart = responseParts?.find((p): p is TextPart => p.type === "text")
+	if (!textPart) {
+		await debugLog(`${label}: No text part in response`)
+		return null
+	}
+	return textPart.text
 }
 
 /**
- * Generate title and description from result content using small_model
- * Falls back to truncation if small_model unavailable
+ * Generate title, description, tags and entities from result content using small_model
+ * Falls back to truncation (and code-span entities) if small_model unavailable
  */
 async function generateMetadata(
 	client: OpencodeClient,
@@ -57,86 +162,65 @@ async function generateMetadata(
 		const title = firstLine.slice(0, 30).trim() + (firstLine.length > 30 ? "..." : "")
 		const description =
 			resultContent.slice(0, 150).trim() + (resultContent.length > 150 ? "..." : "")
-		return { title, description }
+		return { title, description, tags: [], entities: extractCodeEntities(resultContent) }
 	}
 
 	try {
-		// Get config to check for small_model
-		const config = await client.config.get()
-		const configData = config.data as { small_model?: string } | undefined
-
-		if (!configData?.small_model) {
-			await debugLog("generateMetadata: No small_model configured, using fallback")
-			return fallbackMetadata()
-		}
-
-		await debugLog(`generateMetadata: Using small_model ${configData.small_model}`)
-
-		// Create a session for metadata generation
-		const session = await client.session.create({
-			body: {
-				title: "Metadata Generation",
-				parentID,
-			},
-		})
-
-		if (!session.data?.id) {
-			await debugLog("generateMetadata: Failed to create session")
-			return fallbackMetadata()
-		}
-
 		// Prompt the small model for metadata
-		const prompt = `Generate a title and description for this research result.
+		const prompt = `Generate a title, description, tags and key entities for this research result.
 
 RULES:
 - Title: 2-5 words, max 30 characters, sentence case
 - Description: 2-3 sentences, max 150 characters, summarize key findings
+- Tags: 2-${METADATA_MAX_TAGS} topic tags, lowercase kebab-case (e.g. "oauth", "rate-limiting")
+- Entities: up to ${METADATA_MAX_ENTITIES} libraries, files, APIs or services named in the result, written as they appear
 
 RESULT CONTENT:
 ${resultContent.slice(0, 2000)}
 
 Respond with ONLY valid JSON in this exact format:
-{"title": "Your Title Here", "description": "Your description here."}`
-
-		// Await prompt response directly with timeout safety net
-		const PROMPT_TIMEOUT_MS = 30000
-		const result = await Promise.race([
-			client.session.prompt({
-				path: { id: session.data.id },
-				body: {
-					parts: [{ type: "text", text: prompt }],
-				},
-			}),
-			new Promise<never>((_, reject) =>
-				setTimeout(() => reject(new Error("Prompt timeout after 30s")), PROMPT_TIMEOUT_MS),
-			),
-		])
+{"title": "Your Title Here", "description": "Your description here.", "tags": ["topic"], "entities": ["library-name"]}`
 
-		// Extract text from the response
-		const responseParts = result.data?.parts as TextPart[] | undefined
-		const textPart = responseParts?.find((p): p is TextPart => p.type === "text")
-		if (!textPart) {
-			await debugLog("generateMetadata: No text part in response")
-			return fallbackMetadata()
-		}
+		const responseText = await promptSmallModel(
+			client,
+			{
+				label: "generateMetadata",
+				title: "Metadata Generation",
+				prompt,
+				parentID,
+				timeoutMs: 30_000,
+			},
+			debugLog,
+		)
+		if (responseText === null) return fallbackMetadata()
 
 		// Parse JSON response
-		const jsonMatch = textPart.text.match(/\{[\s\S]*\}/)
+		const jsonMatch = responseText.match(/\{[\s\S]*\}/)
 		if (!jsonMatch) {
-			await debugLog(`generateMetadata: No JSON found in response: ${textPart.text}`)
+			await debugLog(`generateMetadata: No JSON found in response: ${responseText}`)
 			return fallbackMetadata()
 		}
 
-		const parsed = JSON.parse(jsonMatch[0]) as { title?: string; description?: string }
+		const parsed = JSON.parse(jsonMatch[0]) as {
+			title?: string
+			description?: string
+			tags?: unknown
+			entities?: unknown
+		}
 		if (!parsed.title || !parsed.description) {
 			await debugLog("generateMetadata: Invalid JSON structure")
 			return fallbackMetadata()
 		}
 
 		await debugLog(`generateMetadata: Generated title="${parsed.title}"`)
+		const entities = normalizeMetadataList(parsed.entities, METADATA_MAX_ENTITIES, (entity) =>
+			entity.trim(),
+		)
 		return {
 			title: parsed.title.slice(0, 30),
 			description: parsed.description.slice(0, 150),
+			tags: normalizeMetadataList(parsed.tags, METADATA_MAX_TAGS, normalizeTag),
+			entities: entities.length > 0 ? entities : extractCodeEntities(resultContent),
 		}
 	} catch (error) {
 		await debugLog(
@@ -146,6 +230,63 @@ Respond with ONLY valid JSON in this exact format:
 	}
 }
 
+const DEFAULT_SUMMARY_MAX_TOKENS = 500
+const SUMMARY_MIN_TOKENS = 50
+const SUMMARY_MAX_TOKENS = 4_000
+const SUMMARY_INPUT_MAX_CHARS = 60_000
+// Rough English average, used to turn a token budget into a character cap
+const CHARS_PER_TOKEN = 4
+
+/**
+ * Condense an artifact body to roughly maxTokens using small_model.
+ * Returns null when small_model is unavailable or fails, so nothing is cached.
+ */
+async function generateSummary(
+	client: OpencodeClient,
+	content: string,
+	parentID: string,
+	maxTokens: number,
+	debugLog: (msg: string) => Promise<void>,
+): Promise<string | null> {
+	const truncated = content.length > SUMMARY_INPUT_MAX_CHARS
+	const prompt = `Condense this research result for an orchestrator that needs only the key findings.
+
+RULES:
+- At most ${maxTokens} tokens (about ${Math.round(maxTokens * 0.75)} words)
+- Keep conclusions, recommendations, concrete names (libraries, files, APIs), numbers and open questions
+- Drop methodology, narration and repetition
+- Markdown bullets, no preamble
+
+RESULT CONTENT${truncated ? ` (first ${SUMMARY_INPUT_MAX_CHARS} characters)` : ""}:
+${content.slice(0, SUMMARY_INPUT_MAX_CHARS)}
+
+Respond with ONLY the condensed summary.`
+
+	try {
+		const responseText = await promptSmallModel(
+			client,
+			{
+				label: "generateSummary",
+				title: "Summary Generation",
+				prompt,
+				parentID,
+				timeoutMs: 60_000,
+			},
+			debugLog,
+		)
+		const summary = responseText?.trim()
+		if (!summary) return null
+
+		const maxChars = maxTokens * CHARS_PER_TOKEN
+		return summary.length > maxChars ? `${summary.slice(0, maxChars).trimEnd()}…` : summary
+	} catch (error) {
+		await debugLog(
+			`generateSummary error: ${error instanceof Error ? error.message : "Unknown error"}`,
+		)
+		return null
+	}
+}
+
 // ==========================================
 // TYPE DEFINITIONS
 // ==========================================
@@ -160,7 +301,15 @@ interface AssistantSessionMessageItem {
 	parts: Part[]
 }
 
-type DelegationStatus = "registered" | "running" | "complete" | "error" | "cancelled" | "timeout"
+type DelegationStatus =
+	| "registered"
+	| "waiting"
+	| "queued"
+	| "running"
+	| "complete"
+	| "error"
+	| "cancelled"
+	| "timeout"
 
 type DelegationTerminalStatus = Extract<
 	DelegationStatus,
@@ -169,10 +318,15 @@ type DelegationTerminalStatus = Extract<
 
 interface DelegationProgress {
 	toolCalls: number
+	toolCallsByName: Record<string, number>
+	currentStep: number
+	lastTool?: string
+	lastToolAt?: Date
 	lastUpdateAt: Date
 	lastHeartbeatAt: Date
 	lastMessage?: string
 	lastMessageAt?: Date
+	stalledAt?: Date
 }
 
 interface DelegationNotificationState {
@@ -192,12 +346,78 @@ interface ParentNotificationState {
 	allCompleteScheduledTimer?: ReturnType<typeof setTimeout>
 }
 
+/**
+ * Token usage and cost summed over a delegation's assistant messages
+ */
+interface DelegationUsage {
+	inputTokens: number
+	outputTokens: number
+	reasoningTokens: number
+	cacheReadTokens: number
+	cacheWriteTokens: number
+	cost: number
+	providerID?: string
+	modelID?: string
+}
+
+/**
+ * Throwaway git worktree a write-capable delegation runs in. Its changes leave the
+ * worktree only as a patch artifact; the worktree is removed when the delegation ends.
+ */
+interface DelegationWorktree {
+	path: string
+	/** Directory inside the worktree that matches the project directory's place in the repo */
+	directory?: string
+	baseCommit: string
+	patchPath?: string
+	filesChanged?: number
+	removedAt?: Date
+}
+
+type DelegationIsolation = "worktree"
+
+/** Outcome of validating a delegation's answer against its output schema */
+interface DelegationStructuredOutput {
+	valid: boolean
+	/** Repair prompts sent after the first answer */
+	repairs: number
+	/** `<id>.json`, written once the answer validates */
+	path?: string
+	errors?: string[]
+}
+
+/** Model a delegation runs on instead of its agent's configured model */
+interface DelegationModel {
+	providerID: string
+	modelID: string
+}
+
 interface DelegationRetrievalState {
 	retrievedAt?: Date
 	retrievalCount: number
 	lastReaderSessionID?: string
 }
 
+interface DelegationAttempt {
+	attempt: number
+	turn?: number
+	sessionID: string
+	startedAt: Date
+	endedAt?: Date
+	durationMs?: number
+	error?: string
+}
+
+/**
+ * A follow-up prompt sent into the same child session via `delegation_continue`.
+ * Turn 1 is the original prompt; continuation turns start at 2.
+ */
+interface DelegationTurn {
+	turn: number
+	prompt: string
+	requestedAt: Date
+}
+
 interface DelegationArtifactState {
 	filePath: string
 	persistedAt?: Date
@@ -217,25 +437,157 @@ interface DelegationRecord {
 	notificationCycle: number
 	notificationCycleToken: string
 	status: DelegationStatus
+	priority: number
 	createdAt: Date
+	queuedAt?: Date
 	startedAt?: Date
 	completedAt?: Date
 	updatedAt: Date
+	maxRunTimeMs: number
 	timeoutAt: Date
 	progress: DelegationProgress
+	attempts: DelegationAttempt[]
 	notification: DelegationNotificationState
 	retrieval: DelegationRetrievalState
 	artifact: DelegationArtifactState
+	dependsOn: string[]
+	dependencyFailurePolicy: DependencyFailurePolicy
+	dependencyContext?: string
+	turns: DelegationTurn[]
+	groupID?: string
+	/** Pinned artifacts are exempt from retention pruning */
+	pinned?: boolean
+	worktree?: DelegationWorktree
+	model?: DelegationModel
+	/** JSON Schema the first turn's answer must match */
+	outputSchema?: JsonSchema
+	structuredOutput?: DelegationStructuredOutput
+	/** Secrets replaced in the persisted result, across turns */
+	redactions?: number
+	/** Total across every child session the delegation used (retries included) */
+	usage?: DelegationUsage
+	/** Per-session usage; a session's entry is replaced each time its messages are read */
+	usageBySession?: Record<string, DelegationUsage>
 	error?: string
 	title?: string
 	description?: string
+	tags?: string[]
+	entities?: string[]
 	result?: string
 }
 
 const DEFAULT_MAX_RUN_TIME_MS = 15 * 60 * 1000 // 15 minutes
+// setTimeout fires immediately for delays past 2^31-1 ms (about 24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+const MAX_TIMEOUT_SECONDS = Math.floor(MAX_TIMER_DELAY_MS / 1000)
 const TERMINAL_WAIT_GRACE_MS = 10_000
 const READ_POLL_INTERVAL_MS = 250
 const ALL_COMPLETE_QUIET_PERIOD_MS = 50
+// A failed group-complete notification is retried with doubling delays, then left to rehydrate
+const GROUP_NOTIFY_RETRY_DELAY_MS = 5_000
+const GROUP_NOTIFY_MAX_RETRIES = 5
+const DEFAULT_MAX_CONCURRENT_PER_SESSION = 5
+const DEFAULT_MAX_CONCURRENT_PER_PROJECT = 10
+const DEPENDENCY_RESULT_MAX_CHARS = 12_000
+const DEFAULT_STALL_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * What the watchdog does when a running delegation shows no activity for the stall timeout:
+ * - "notify": tell the parent and keep waiting (the flag clears on the next activity)
+ * - "abort": abort the session and finalize early with the partial result
+ */
+type StallAction = "notify" | "abort"
+
+/**
+ * What happens to a dependent delegation when one of its dependencies does not complete:
+ * - "fail": the dependent is finalized as error without running
+ * - "continue": the dependent runs anyway, with the failure noted in its injected context
+ */
+type DependencyFailurePolicy = "fail" | "continue"
+
+interface RetryPolicy {
+	maxAttempts: number
+	initialDelayMs: number
+	backoffMultiplier: number
+	maxDelayMs: number
+	retryableErrorPatterns: RegExp[]
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	initialDelayMs: 2_000,
+	backoffMultiplier: 2,
+	maxDelayMs: 30_000,
+	retryableErrorPatterns: [
+		/rate.?limit/i,
+		/too many requests/i,
+		/\b(429|500|502|503|504|529)\b/,
+		/overloaded/i,
+		/temporarily unavailable/i,
+		/timed? ?out/i,
+		/ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up/i,
+		/network error|fetch failed/i,
+	],
+}
+/**
+ * Limits applied to persisted artifacts across all root sessions of a project.
+ * Any limit set to 0 is disabled. Pinned, unread and still-active delegations are exempt.
+ */
+interface RetentionPolicy {
+	maxAgeMs: number
+	maxTotalBytes: number
+	maxCount: number
+	/** The debug log is rotated to `.1` once it grows past this size */
+	maxDebugLogBytes: number
+	/** How often the policy runs after plugin init */
+	intervalMs: number
+}
+
+/**
+ * Tools denied to every sub-agent session.
+ * Anti-recursion: nested delegations and state-modifying tools stay with the orchestrator.
+ */
+const DEFAULT_DISABLED_TOOLS: Record<string, boolean> = {
+	task: true,
+	delegate: true,
+	todowrite: true,
+	plan_save: true,
+}
+
+// Artifact limits are opt-in: existing research is never deleted unless configured
+const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+	maxAgeMs: 0,
+	maxTotalBytes: 0,
+	maxCount: 0,
+	maxDebugLogBytes: 5 * 1024 * 1024,
+	intervalMs: 6 * 60 * 60 * 1000, // 6 hours
+}
+
+/**
+ * Secret scrubbing applied to results, prompts and transcripts before they are written.
+ * Matches are replaced with `[REDACTED:<kind>]`.
+ */
+interface RedactionPolicy {
+	enabled: boolean
+	/** Also replace long random-looking tokens that match no known format */
+	highEntropy: boolean
+	/** Extra patterns; the whole match is replaced */
+	patterns: RegExp[]
+}
+
+const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+	enabled: true,
+	// Opt-in: long code identifiers look random enough to trip the heuristic
+	highEntropy: false,
+	patterns: [],
+}
+
+const DEBUG_LOG_FILE_NAME = "background-agents-debug.log"
+// Each plugin instance keeps its own `delegations-state.<instance>.json`; the bare
+// `delegations-state.json` is the single shared file written by earlier versions
+const STATE_FILE_PATTERN = /^delegations-state(?:\.[\w-]+)?\.json$/
+const STATE_FILE_VERSION = 1
+const ARTIFACT_METADATA_VERSION = 1
 
 interface DelegateInput {
 	parentSessionID: string
@@ -243,6 +595,57 @@ interface DelegateInput {
 	parentAgent: string
 	prompt: string
 	agent: string
+	timeoutMs?: number
+	priority?: number
+	groupID?: string
+	dependsOn?: string[]
+	dependencyFailurePolicy?: DependencyFailurePolicy
+	isolation?: DelegationIsolation
+	/** "provider/model", or a bare model ID when `provider` is given or the ID is unambiguous */
+	model?: string
+	provider?: string
+	outputSchema?: unknown
+}
+
+/**
+ * A named batch of delegations launched together by `delegate_batch`.
+ * Has its own completion notification, independent of the parent's all-complete cycle.
+ */
+interface DelegationGroup {
+	id: string
+	name?: string
+	rootSessionID: string
+	parentSessionID: string
+	parentAgent: string
+	memberIds: string[]
+	launched: boolean
+	createdAt: Date
+	completedAt?: Date
+	notifiedAt?: Date
+	artifactPath: string
+}
+
+interface DelegateBatchInput {
+	parentSessionID: string
+	parentMessageID: string
+	parentAgent: string
+	name?: string
+	items: { prompt: string; agent: string; timeoutMs?: number; priority?: number; model?: string }[]
+}
+
+interface DelegationGroupMember {
+	id: string
+	status: DelegationStatus | "not_found"
+	agent?: string
+	title?: string
+	prompt?: string
+	artifactPath: string
+}
+
+interface PendingCounts {
+	waiting: number
+	queued: number
+	running: number
 }
 
 interface DelegationListItem {
@@ -252,6 +655,121 @@ interface DelegationListItem {
 	description?: string
 	agent?: string
 	unread?: boolean
+	/** Root session the delegation was created in */
+	sessionID?: string
+	/** ISO timestamp of completion, or start/creation while unfinished */
+	date?: string
+	pinned?: boolean
+	usage?: DelegationUsage
+	tags?: string[]
+}
+
+interface DelegationListFilters {
+	/** Matched case-insensitively against generated tags */
+	tag?: string
+	agent?: string
+	status?: DelegationStatus
+}
+
+/**
+ * Which delegations a lookup sees:
+ * - "session": the current root session only
+ * - "project": every root session stored under the project's delegations directory
+ */
+type DelegationScope = "session" | "project"
+
+interface DelegationWaitResult {
+	id: string
+	status: DelegationStatus | "not_found"
+	title?: string
+	artifactPath?: string
+	ready: boolean
+}
+
+interface DelegationSearchFilters {
+	agent?: string
+	status?: DelegationStatus
+	since?: Date
+	until?: Date
+	limit?: number
+}
+
+interface PrunedDelegation {
+	id: string
+	rootSessionID: string
+	reason: "age" | "size" | "count"
+	bytes: number
+	date: string
+}
+
+interface PruneResult {
+	dryRun: boolean
+	removed: PrunedDelegation[]
+	keptCount: number
+	keptBytes: number
+	/** Artifacts skipped because they are pinned, unread or still active */
+	exemptCount: number
+	debugLogRotated: boolean
+}
+
+interface DelegationSearchResult {
+	id: string
+	status: DelegationStatus
+	title?: string
+	description?: string
+	agent?: string
+	date?: string
+	score: number
+	snippets: string[]
+}
+
+/**
+ * Machine-readable artifact metadata, written as a `<id>.meta.json` sidecar
+ * next to the markdown artifact.
+ */
+interface DelegationArtifactMetadata {
+	version: number
+	kind?: "delegation" | "group"
+	id: string
+	title?: string
+	description?: string
+	tags?: string[]
+	entities?: string[]
+	agent?: string
+	status: DelegationStatus
+	prompt?: string
+	sessionID?: string
+	rootSessionID?: string
+	parentSessionID?: string
+	parentMessageID?: string
+	parentAgent?: string
+	createdAt?: string
+	startedAt?: string
+	completedAt?: string
+	maxRunTimeMs?: number
+	attempts?: {
+		attempt: number
+		sessionID: string
+		startedAt: string
+		endedAt?: string
+		durationMs?: number
+		error?: string
+	}[]
+	error?: string
+	byteLength?: number
+	retrievalCount?: number
+	retrievedAt?: string
+	groupID?: string
+	dependsOn?: string[]
+	turns?: { turn: number; prompt: string; requestedAt: string }[]
+	pinned?: boolean
+	usage?: DelegationUsage
+	worktree?: { baseCommit: string; patchPath?: string; filesChanged?: number }
+	model?: DelegationModel
+	outputSchema?: JsonSchema
+	structuredOutput?: DelegationStructuredOutput
+	redactions?: number
+	members?: string[]
 }
 
 interface DelegationManagerOptions {
@@ -259,8 +777,28 @@ interface DelegationManagerOptions {
 	readPollIntervalMs?: number
 	terminalWaitGraceMs?: number
 	allCompleteQuietPeriodMs?: number
+	maxConcurrentPerSession?: number
+	maxConcurrentPerProject?: number
+	retryPolicy?: Partial<RetryPolicy>
+	dependencyFailurePolicy?: DependencyFailurePolicy
+	retentionPolicy?: Partial<RetentionPolicy>
+	redactionPolicy?: Partial<RedactionPolicy>
+	/** Write a `<id>.transcript.md` with every message, tool call and reasoning part (default true) */
+	persistTranscripts?: boolean
+	/** Project checkout that worktree-isolated delegations branch from */
+	projectDirectory?: string
+	/** Inactivity period before a running delegation is flagged as stalled; 0 disables */
+	stallTimeoutMs?: number
+	stallAction?: StallAction
+	/** Repair prompts sent when a structured answer fails its schema (default 2) */
+	structuredOutputMaxRepairs?: number
+	/** Append internal events to the debug log in the storage directory (default true) */
+	debug?: boolean
+	/** Tools to disable (`true`) or re-enable (`false`) in sub-agent sessions, over the defaults */
+	disabledTools?: Record<string, boolean>
 	idGenerator?: () => string
 	metadataGenerator?: typeof generateMetadata
+	summaryGenerator?: typeof generateSummary
 }
 
 // ==========================================
@@ -368,6 +906,46 @@ async function parseAgentWriteCapability(
 	}
 }
 
+/**
+ * Parse per-agent delegation timeout at boundary.
+ * Reads `agent.<name>.delegation_timeout` (seconds) from OpenCode config.
+ * Returns undefined when unset or invalid so the manager default applies.
+ */
+async function parseAgentTimeout(
+	client: OpencodeClient,
+	agentName: string,
+	log: Logger,
+): Promise<{ timeoutMs?: number }> {
+	try {
+		const config = await client.config.get()
+		const configData = config.data as {
+			agent?: Record<string, { delegation_timeout?: unknown }>
+		}
+		const timeoutSeconds = configData?.agent?.[agentName]?.delegation_timeout
+		if (timeoutSeconds === undefined) return {}
+
+		if (
+			typeof timeoutSeconds !== "number" ||
+			!(timeoutSeconds > 0) ||
+			timeoutSeconds > MAX_TIMEOUT_SECONDS
+		) {
+			log.warn(
+				`Ignoring invalid delegation_timeout for "${agentName}": expected positive seconds up to ${MAX_TIMEOUT_SECONDS}, got ${JSON.stringify(timeoutSeconds)}`,
+			)
+			return {}
+		}
+
+		return { timeoutMs: timeoutSeconds * 1000 }
+	} catch (error) {
+		// Fail-safe: Config errors fall back to the default timeout
+		// Fail-loud: Log for observability
+		log.warn(
+			`Config fetch failed for "${agentName}", using default timeout: ${error instanceof Error ? error.message : String(error)}`,
+		)
+		return {}
+	}
+}
+
 /**
  * DELEGATION MANAGER
  */
@@ -378,7 +956,17 @@ function isTerminalStatus(status: DelegationStatus): status is DelegationTermina
 }
 
 function isActiveStatus(status: DelegationStatus): boolean {
-	return status === "registered" || status === "running"
+	return (
+		status === "registered" || status === "waiting" || status === "queued" || status === "running"
+	)
+}
+
+/**
+ * Active but not yet executing: no child prompt has been sent and the run-time budget
+ * has not started.
+ */
+function isAwaitingStart(status: DelegationStatus): boolean {
+	return status === "waiting" || status === "queued"
 }
 
 function normalizeId(value: string): string {
@@ -388,6 +976,8 @@ function normalizeId(value: string): string {
 function parsePersistedStatus(raw: string | undefined): DelegationStatus {
 	if (!raw) return "complete"
 	if (raw === "registered") return "registered"
+	if (raw === "waiting") return "waiting"
+	if (raw === "queued") return "queued"
 	if (raw === "running") return "running"
 	if (raw === "complete") return "complete"
 	if (raw === "error") return "error"
@@ -396,1213 +986,5828 @@ function parsePersistedStatus(raw: string | undefined): DelegationStatus {
 	return "complete"
 }
 
-class DelegationManager {
-	private delegations: Map<string, DelegationRecord> = new Map()
-	private delegationsBySession: Map<string, string> = new Map()
-	private terminalWaiters: Map<string, { promise: Promise<void>; resolve: () => void }> = new Map()
-	private timeoutTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
-	private client: OpencodeClient
-	private baseDir: string
-	private log: Logger
-	private maxRunTimeMs: number
-	private readPollIntervalMs: number
-	private terminalWaitGraceMs: number
-	private allCompleteQuietPeriodMs: number
-	private idGenerator: () => string
-	private metadataGenerator: typeof generateMetadata
-	private pendingByParent: Map<string, Set<string>> = new Map()
-	private parentNotificationState: Map<string, ParentNotificationState> = new Map()
+/** The plugin instance that writes a state file; only it may resume the delegations */
+interface StateFileOwner {
+	pid: number
+	instanceId: string
+}
 
-	constructor(
-		client: OpencodeClient,
-		baseDir: string,
-		log: Logger,
-		options: DelegationManagerOptions = {},
-	) {
-		this.client = client
-		this.baseDir = baseDir
-		this.log = log
-		this.maxRunTimeMs = options.maxRunTimeMs ?? DEFAULT_MAX_RUN_TIME_MS
-		this.readPollIntervalMs = options.readPollIntervalMs ?? READ_POLL_INTERVAL_MS
-		this.terminalWaitGraceMs = options.terminalWaitGraceMs ?? TERMINAL_WAIT_GRACE_MS
-		this.allCompleteQuietPeriodMs = options.allCompleteQuietPeriodMs ?? ALL_COMPLETE_QUIET_PERIOD_MS
-		this.idGenerator = options.idGenerator ?? generateReadableId
-		this.metadataGenerator = options.metadataGenerator ?? generateMetadata
-	}
+interface PersistedDelegationState {
+	version: number
+	owner?: StateFileOwner
+	delegations: Omit<DelegationRecord, "result">[]
+	groups?: DelegationGroup[]
+}
 
-	/**
-	 * Resolves the root session ID by walking up the parent chain.
-	 */
-	async getRootSessionID(sessionID: string): Promise<string> {
-		let currentID = sessionID
-		// Prevent infinite loops with max depth
-		for (let depth = 0; depth < 10; depth++) {
-			try {
-				const session = await this.client.session.get({
-					path: { id: currentID },
-				})
+function isPersistedDelegationGroup(value: unknown): value is DelegationGroup {
+	if (!value || typeof value !== "object") return false
+	const group = value as Partial<DelegationGroup>
+	return (
+		typeof group.id === "string" &&
+		typeof group.rootSessionID === "string" &&
+		typeof group.parentSessionID === "string" &&
+		typeof group.parentAgent === "string" &&
+		Array.isArray(group.memberIds) &&
+		group.createdAt instanceof Date &&
+		typeof group.artifactPath === "string"
+	)
+}
 
-				if (!session.data?.parentID) {
-					return currentID
-				}
+function isPersistedDelegationRecord(value: unknown): value is DelegationRecord {
+	if (!value || typeof value !== "object") return false
+	const record = value as Partial<DelegationRecord>
+	return (
+		typeof record.id === "string" &&
+		typeof record.rootSessionID === "string" &&
+		typeof record.sessionID === "string" &&
+		typeof record.parentSessionID === "string" &&
+		typeof record.parentAgent === "string" &&
+		typeof record.agent === "string" &&
+		typeof record.status === "string" &&
+		typeof record.notificationCycle === "number" &&
+		typeof record.notificationCycleToken === "string" &&
+		record.createdAt instanceof Date &&
+		record.timeoutAt instanceof Date &&
+		typeof record.progress === "object" &&
+		typeof record.notification === "object" &&
+		typeof record.retrieval === "object" &&
+		typeof record.artifact?.filePath === "string"
+	)
+}
 
-				currentID = session.data.parentID
-			} catch {
-				// If we can't fetch the session, assume current is root or best effort
-				return currentID
-			}
-		}
-		return currentID
+/**
+ * Parse the persisted registry at boundary.
+ * Revives ISO timestamps (every `*At` field) and drops malformed records.
+ */
+function parsePersistedDelegationState(raw: string): {
+	owner?: StateFileOwner
+	delegations: DelegationRecord[]
+	groups: DelegationGroup[]
+} {
+	const parsed = JSON.parse(raw, (key, value) =>
+		key.endsWith("At") && typeof value === "string" ? new Date(value) : value,
+	) as Partial<PersistedDelegationState> | null
+
+	if (parsed?.version !== STATE_FILE_VERSION || !Array.isArray(parsed.delegations)) {
+		return { delegations: [], groups: [] }
 	}
 
-	/**
-	 * Get the delegations directory for a session scope (root session)
-	 */
-	private async getDelegationsDir(sessionID: string): Promise<string> {
-		const rootID = await this.getRootSessionID(sessionID)
-		return path.join(this.baseDir, rootID)
-	}
+	const groups = Array.isArray(parsed.groups)
+		? parsed.groups.filter(isPersistedDelegationGroup)
+		: []
+	const delegations = parsed.delegations.filter(isPersistedDelegationRecord).map((record) => ({
+		...record,
+		status: parsePersistedStatus(record.status),
+		priority: record.priority ?? 0,
+		attempts: Array.isArray(record.attempts) ? record.attempts : [],
+		dependsOn: Array.isArray(record.dependsOn) ? record.dependsOn : [],
+		dependencyFailurePolicy: record.dependencyFailurePolicy ?? "fail",
+		turns: Array.isArray(record.turns) ? record.turns : [],
+		progress: {
+			...record.progress,
+			toolCallsByName: record.progress.toolCallsByName ?? {},
+			currentStep: record.progress.currentStep ?? 0,
+		},
+		// State files written before per-delegation timeouts only carry timeoutAt
+		maxRunTimeMs: record.maxRunTimeMs ?? record.timeoutAt.getTime() - record.createdAt.getTime(),
+	}))
 
-	/**
-	 * Ensure the delegations directory exists
-	 */
-	private async ensureDelegationsDir(sessionID: string): Promise<string> {
-		const dir = await this.getDelegationsDir(sessionID)
-		await fs.mkdir(dir, { recursive: true })
-		return dir
+	const owner =
+		typeof parsed.owner?.pid === "number" && typeof parsed.owner.instanceId === "string"
+			? parsed.owner
+			: undefined
+
+	return { owner, delegations, groups }
+}
+
+/**
+ * Whether a process is still running. EPERM means it exists but belongs to another user.
+ */
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0)
+		return true
+	} catch (error) {
+		return (error as { code?: string }).code === "EPERM"
 	}
+}
 
-	private createTerminalWaiter(id: string): void {
-		if (this.terminalWaiters.has(id)) return
+// ==========================================
+// GIT WORKTREES
+// ==========================================
 
-		let resolve: (() => void) | undefined
-		const promise = new Promise<void>((innerResolve) => {
-			resolve = innerResolve
-		})
+const GIT_TIMEOUT_MS = 30_000
+const WORKTREES_DIR_NAME = "opencode-delegation-worktrees"
 
-		if (!resolve) {
-			throw new Error(`Failed to initialize terminal waiter for delegation ${id}`)
-		}
+/**
+ * Run a git command. Output is drained while the process runs, so large diffs
+ * cannot fill the pipe and stall it. Timeouts kill the process and report exit code 1.
+ */
+async function runGit(
+	args: string[],
+	cwd: string,
+): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+	const proc = Bun.spawn(["git", ...args], {
+		cwd,
+		stdout: "pipe",
+		stderr: "pipe",
+		env: { ...process.env, GIT_DIR: undefined, GIT_WORK_TREE: undefined },
+	})
+	const stdout = new Response(proc.stdout).text()
+	const stderr = new Response(proc.stderr).text()
 
-		this.terminalWaiters.set(id, { promise, resolve })
-	}
+	const exitCode = await withTimeout(proc.exited, GIT_TIMEOUT_MS, `git ${args[0]} timed out`).catch(
+		(error) => {
+			if (error instanceof TimeoutError) {
+				proc.kill()
+			}
+			return 1
+		},
+	)
 
-	private resolveTerminalWaiter(id: string): void {
-		const waiter = this.terminalWaiters.get(id)
-		if (!waiter) return
-		waiter.resolve()
-	}
+	return { exitCode, stdout: await stdout, stderr: await stderr }
+}
 
-	private clearTimeoutTimer(id: string): void {
-		const timer = this.timeoutTimers.get(id)
-		if (!timer) return
-		clearTimeout(timer)
-		this.timeoutTimers.delete(id)
-	}
+/**
+ * Resolve the repository root containing a directory. Patch paths are relative to it,
+ * whichever subdirectory OpenCode was opened in.
+ */
+async function getGitTopLevel(cwd: string): Promise<string | undefined> {
+	const result = await runGit(["rev-parse", "--show-toplevel"], cwd)
+	return result.exitCode === 0 ? result.stdout.trim() : undefined
+}
 
-	private scheduleTimeout(id: string): void {
-		this.clearTimeoutTimer(id)
-		const timer = setTimeout(() => {
-			void this.handleTimeout(id)
-		}, this.maxRunTimeMs + 5_000)
-		this.timeoutTimers.set(id, timer)
+/**
+ * Map a directory to the main checkout of its repository. Inside a linked worktree
+ * (such as a delegation's throwaway one) this is the user's working copy, not the worktree.
+ * Fail-safe: outside git, the directory is its own root.
+ */
+async function resolveMainCheckout(
+	directory: string,
+): Promise<{ topLevel: string; directory: string }> {
+	const [commonDir, prefix] = await Promise.all([
+		runGit(["rev-parse", "--git-common-dir"], directory),
+		runGit(["rev-parse", "--show-prefix"], directory),
+	])
+	if (commonDir.exitCode !== 0 || prefix.exitCode !== 0) {
+		return { topLevel: directory, directory }
 	}
 
-	private updateDelegation(
-		id: string,
-		mutate: (delegation: DelegationRecord, now: Date) => void,
-	): DelegationRecord | undefined {
-		const delegation = this.delegations.get(id)
-		if (!delegation) return undefined
+	const gitDir = path.resolve(directory, commonDir.stdout.trim())
+	const topLevel =
+		path.basename(gitDir) === ".git"
+			? path.dirname(gitDir)
+			: ((await getGitTopLevel(directory)) ?? directory)
+	return { topLevel, directory: path.join(topLevel, prefix.stdout.trim()) }
+}
 
-		const now = new Date()
-		mutate(delegation, now)
-		delegation.updatedAt = now
-		return delegation
-	}
+/**
+ * Project ID as every plugin instance of this repository computes it: taken at the main
+ * checkout's root, so subdirectories and delegation worktrees share one storage directory.
+ */
+async function resolveProjectId(directory: string): Promise<string> {
+	return getProjectId((await resolveMainCheckout(directory)).topLevel)
+}
 
-	private registerDelegation(input: {
-		id: string
-		rootSessionID: string
-		sessionID: string
-		parentSessionID: string
-		parentMessageID: string
-		parentAgent: string
-		prompt: string
-		agent: string
-		artifactPath: string
-	}): DelegationRecord {
-		if (!this.pendingByParent.has(input.parentSessionID)) {
-			this.pendingByParent.set(input.parentSessionID, new Set())
-			this.resetParentAllCompleteNotificationCycle(input.parentSessionID)
-		}
+/** Whether a directory lies inside one of the throwaway worktrees created for delegations */
+function isDelegationWorktree(directory: string): boolean {
+	const relative = path.relative(path.join(getTempDir(), WORKTREES_DIR_NAME), directory)
+	return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative)
+}
 
-		const parentNotificationState = this.getParentNotificationState(input.parentSessionID)
-		const notificationCycle = parentNotificationState.allCompleteCycle
-		const notificationCycleToken = parentNotificationState.allCompleteCycleToken
+/** Directory a worktree delegation's session runs in */
+function getWorktreeDirectory(worktree: DelegationWorktree): string {
+	return worktree.directory ?? worktree.path
+}
 
-		const now = new Date()
-		const delegation: DelegationRecord = {
-			id: input.id,
-			rootSessionID: input.rootSessionID,
-			sessionID: input.sessionID,
-			parentSessionID: input.parentSessionID,
-			parentMessageID: input.parentMessageID,
-			parentAgent: input.parentAgent,
-			prompt: input.prompt,
-			agent: input.agent,
-			notificationCycle,
-			notificationCycleToken,
-			status: "registered",
-			createdAt: now,
-			updatedAt: now,
-			timeoutAt: new Date(now.getTime() + this.maxRunTimeMs),
-			progress: {
-				toolCalls: 0,
-				lastUpdateAt: now,
-				lastHeartbeatAt: now,
-			},
-			notification: {
-				terminalNotificationCount: 0,
-			},
-			retrieval: {
-				retrievalCount: 0,
-			},
-			artifact: {
-				filePath: input.artifactPath,
-			},
-		}
+function countPatchFiles(patch: string): number {
+	return patch.match(/^diff --git /gm)?.length ?? 0
+}
 
-		this.delegations.set(delegation.id, delegation)
-		this.delegationsBySession.set(delegation.sessionID, delegation.id)
-		this.createTerminalWaiter(delegation.id)
-		this.pendingByParent.get(delegation.parentSessionID)?.add(delegation.id)
+// ==========================================
+// USAGE ACCOUNTING
+// ==========================================
 
-		return delegation
+function emptyUsage(): DelegationUsage {
+	return {
+		inputTokens: 0,
+		outputTokens: 0,
+		reasoningTokens: 0,
+		cacheReadTokens: 0,
+		cacheWriteTokens: 0,
+		cost: 0,
 	}
+}
 
-	private markStarted(id: string): DelegationRecord | undefined {
-		return this.updateDelegation(id, (delegation, now) => {
-			if (isTerminalStatus(delegation.status)) return
-			delegation.status = "running"
-			delegation.startedAt = now
-			delegation.progress.lastUpdateAt = now
-			delegation.progress.lastHeartbeatAt = now
-		})
+/**
+ * Sum token usage and cost over a session's assistant messages.
+ * Model/provider come from the latest assistant message.
+ */
+function summarizeSessionUsage(messages: SessionMessageItem[]): DelegationUsage {
+	const usage = emptyUsage()
+	for (const { info } of messages) {
+		if (info.role !== "assistant") continue
+		usage.inputTokens += info.tokens?.input ?? 0
+		usage.outputTokens += info.tokens?.output ?? 0
+		usage.reasoningTokens += info.tokens?.reasoning ?? 0
+		usage.cacheReadTokens += info.tokens?.cache?.read ?? 0
+		usage.cacheWriteTokens += info.tokens?.cache?.write ?? 0
+		usage.cost += info.cost ?? 0
+		usage.providerID = info.providerID
+		usage.modelID = info.modelID
 	}
+	return usage
+}
 
-	private markProgress(id: string, messageText?: string): DelegationRecord | undefined {
-		return this.updateDelegation(id, (delegation, now) => {
-			if (isTerminalStatus(delegation.status)) return
-			if (delegation.status === "registered") {
-				delegation.status = "running"
-				delegation.startedAt = delegation.startedAt ?? now
-			}
+function sumUsage(usages: DelegationUsage[]): DelegationUsage {
+	const total = emptyUsage()
+	for (const usage of usages) {
+		total.inputTokens += usage.inputTokens
+		total.outputTokens += usage.outputTokens
+		total.reasoningTokens += usage.reasoningTokens
+		total.cacheReadTokens += usage.cacheReadTokens
+		total.cacheWriteTokens += usage.cacheWriteTokens
+		total.cost += usage.cost
+		total.providerID = usage.providerID ?? total.providerID
+		total.modelID = usage.modelID ?? total.modelID
+	}
+	return total
+}
 
-			delegation.progress.lastUpdateAt = now
-			delegation.progress.lastHeartbeatAt = now
+/**
+ * One-line usage summary, e.g. "12,345 in / 2,345 out tokens, 10,000 cache read, $0.0123"
+ */
+function formatUsage(usage: DelegationUsage): string {
+	const count = (n: number) => n.toLocaleString("en-US")
+	const parts = [`${count(usage.inputTokens)} in / ${count(usage.outputTokens)} out tokens`]
+	if (usage.reasoningTokens > 0) parts.push(`${count(usage.reasoningTokens)} reasoning`)
+	if (usage.cacheReadTokens > 0) parts.push(`${count(usage.cacheReadTokens)} cache read`)
+	if (usage.cacheWriteTokens > 0) parts.push(`${count(usage.cacheWriteTokens)} cache write`)
+	parts.push(`$${usage.cost.toFixed(4)}`)
+	return parts.join(", ")
+}
 
-			if (messageText) {
-				delegation.progress.lastMessage = messageText
-				delegation.progress.lastMessageAt = now
-			}
-		})
-	}
+function formatUsageModel(usage: DelegationUsage): string | undefined {
+	if (!usage.modelID) return undefined
+	return usage.providerID ? `${usage.providerID}/${usage.modelID}` : usage.modelID
+}
 
-	private markTerminal(
-		id: string,
-		status: DelegationTerminalStatus,
-		error?: string,
-	): { transitioned: boolean; delegation?: DelegationRecord } {
-		const delegation = this.delegations.get(id)
-		if (!delegation) return { transitioned: false }
+// ==========================================
+// TRANSCRIPTS
+// ==========================================
 
-		if (isTerminalStatus(delegation.status)) {
-			return { transitioned: false, delegation }
+const TRANSCRIPT_TOOL_MAX_CHARS = 2_000
+
+function truncateForTranscript(text: string): string {
+	if (text.length <= TRANSCRIPT_TOOL_MAX_CHARS) return text
+	return `${text.slice(0, TRANSCRIPT_TOOL_MAX_CHARS)}\n... [truncated ${text.length - TRANSCRIPT_TOOL_MAX_CHARS} chars]`
+}
+
+function formatTranscriptPart(part: Part): string | undefined {
+	switch (part.type) {
+		case "text":
+			return part.text.trim() || undefined
+		case "reasoning":
+			return part.text.trim() ? `**Reasoning:**\n\n${part.text.trim()}` : undefined
+		case "tool": {
+			const lines = [`**Tool: ${part.tool}** (${part.state.status})`]
+			lines.push(
+				"",
+				"Input:",
+				"```json",
+				truncateForTranscript(JSON.stringify(part.state.input, null, 2)),
+				"```",
+			)
+			if (part.state.status === "completed") {
+				lines.push("", "Output:", "```", truncateForTranscript(part.state.output), "```")
+			} else if (part.state.status === "error") {
+				lines.push("", `Error: ${truncateForTranscript(part.state.error)}`)
+			}
+			return lines.join("\n")
 		}
+		default:
+			// Step markers, snapshots, patches and files carry no conversational content
+			return undefined
+	}
+}
 
-		const now = new Date()
-		delegation.status = status
-		delegation.completedAt = now
-		delegation.updatedAt = now
-		if (error) {
-			delegation.error = error
+/**
+ * Render every message of a delegation's child sessions as markdown. Sessions are
+ * listed per attempt when the delegation was retried.
+ */
+function formatTranscript(
+	delegation: DelegationRecord,
+	sessions: { sessionID: string; messages: SessionMessageItem[] }[],
+): string {
+	const sections = [
+		`# Transcript: ${delegation.title || delegation.id}`,
+		"",
+		`**ID:** ${delegation.id}`,
+		`**Agent:** ${delegation.agent}`,
+		`**Status:** ${delegation.status}`,
+		"",
+	]
+
+	for (const [index, { sessionID, messages }] of sessions.entries()) {
+		if (sessions.length > 1) {
+			sections.push(`## Attempt ${index + 1} (${sessionID})`, "")
 		}
 
-		const pending = this.pendingByParent.get(delegation.parentSessionID)
-		if (pending) {
-			pending.delete(delegation.id)
-			if (pending.size === 0) {
-				this.pendingByParent.delete(delegation.parentSessionID)
+		for (const { info, parts } of messages) {
+			const heading =
+				info.role === "assistant"
+					? `### Assistant (${info.providerID}/${info.modelID})`
+					: "### User"
+			sections.push(heading, "")
+			for (const part of parts) {
+				const rendered = formatTranscriptPart(part)
+				if (rendered) sections.push(rendered, "")
 			}
 		}
+	}
 
-		this.clearTimeoutTimer(id)
-		this.resolveTerminalWaiter(id)
+	return sections.join("\n")
+}
 
-		return { transitioned: true, delegation }
-	}
+// ==========================================
+// STRUCTURED OUTPUT
+// ==========================================
 
-	private markNotified(id: string): DelegationRecord | undefined {
-		return this.updateDelegation(id, (delegation, now) => {
-			delegation.notification.terminalNotifiedAt = now
-			delegation.notification.terminalNotificationCount += 1
-		})
-	}
+/** A JSON Schema object, as passed to `delegate(outputSchema)` */
+type JsonSchema = Record<string, unknown>
+
+const DEFAULT_STRUCTURED_OUTPUT_MAX_REPAIRS = 2
+const STRUCTURED_OUTPUT_MAX_ERRORS = 20
+const JSON_SCHEMA_TYPES = ["object", "array", "string", "number", "integer", "boolean", "null"]
+const JSON_SCHEMA_BOUNDS = [
+	"minLength",
+	"maxLength",
+	"minimum",
+	"maximum",
+	"exclusiveMinimum",
+	"exclusiveMaximum",
+	"minItems",
+	"maxItems",
+]
+// Keywords validateJsonSchema enforces, plus annotations that never affect validity
+const JSON_SCHEMA_KEYWORDS = new Set([
+	"type",
+	"enum",
+	"const",
+	"anyOf",
+	"oneOf",
+	"allOf",
+	"properties",
+	"required",
+	"additionalProperties",
+	"items",
+	"pattern",
+	...JSON_SCHEMA_BOUNDS,
+	"$schema",
+	"$id",
+	"$comment",
+	"title",
+	"description",
+	"default",
+	"examples",
+])
+
+function isJsonSchema(value: unknown): value is JsonSchema {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
 
-	private getParentNotificationState(parentSessionID: string): ParentNotificationState {
-		const existing = this.parentNotificationState.get(parentSessionID)
-		if (existing) return existing
+function getJsonType(value: unknown): string {
+	if (value === null) return "null"
+	if (Array.isArray(value)) return "array"
+	if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+	return typeof value
+}
 
-		const initialized: ParentNotificationState = {
-			allCompleteNotificationCount: 0,
-			allCompleteCycle: 0,
-			allCompleteCycleToken: this.buildAllCompleteCycleToken(parentSessionID, 0),
-		}
-		this.parentNotificationState.set(parentSessionID, initialized)
-		return initialized
+/** Structural JSON equality; object key order does not matter */
+function jsonEquals(a: unknown, b: unknown): boolean {
+	if (a === b) return true
+	if (Array.isArray(a) || Array.isArray(b)) {
+		return (
+			Array.isArray(a) &&
+			Array.isArray(b) &&
+			a.length === b.length &&
+			a.every((item, index) => jsonEquals(item, b[index]))
+		)
 	}
+	if (!isJsonSchema(a) || !isJsonSchema(b)) return false
 
-	private buildAllCompleteCycleToken(parentSessionID: string, cycle: number): string {
-		return `${parentSessionID}:${cycle}`
+	const keys = Object.keys(a)
+	return (
+		keys.length === Object.keys(b).length &&
+		keys.every((key) => Object.hasOwn(b, key) && jsonEquals(a[key], b[key]))
+	)
+}
+
+/**
+ * Check one schema node and every subschema the validator descends into
+ */
+function checkOutputSchemaNode(schema: unknown, at: string): asserts schema is JsonSchema {
+	if (!isJsonSchema(schema)) {
+		throw new Error(`${at} must be a JSON Schema object`)
 	}
 
-	private resetParentAllCompleteNotificationCycle(parentSessionID: string): void {
-		const state = this.getParentNotificationState(parentSessionID)
-		this.cancelScheduledAllComplete(state)
-		state.allCompleteCycle += 1
-		state.allCompleteCycleToken = this.buildAllCompleteCycleToken(
-			parentSessionID,
-			state.allCompleteCycle,
+	// An unknown keyword would let any value through at this node
+	const unsupported = Object.keys(schema).find((keyword) => !JSON_SCHEMA_KEYWORDS.has(keyword))
+	if (unsupported !== undefined) {
+		throw new Error(
+			`${at} uses unsupported keyword "${unsupported}". Supported keywords: ${Array.from(JSON_SCHEMA_KEYWORDS).join(", ")}`,
 		)
-		state.allCompleteNotifiedAt = undefined
-		state.allCompleteNotifiedCycle = undefined
-		state.allCompleteNotifiedCycleToken = undefined
 	}
 
-	private cancelScheduledAllComplete(state: ParentNotificationState): void {
-		if (state.allCompleteScheduledTimer) {
-			clearTimeout(state.allCompleteScheduledTimer)
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+	const unknownType = types.find((type) => type !== undefined && !JSON_SCHEMA_TYPES.includes(type))
+	if (unknownType !== undefined) {
+		throw new Error(
+			`${at} has unsupported type ${JSON.stringify(unknownType)}. Supported types: ${JSON_SCHEMA_TYPES.join(", ")}`,
+		)
+	}
+	if (schema.properties !== undefined) {
+		if (!isJsonSchema(schema.properties)) {
+			throw new Error(`${at}.properties must be an object of schemas`)
+		}
+		for (const [key, property] of Object.entries(schema.properties)) {
+			checkOutputSchemaNode(property, `${at}.properties.${key}`)
 		}
-		state.allCompleteScheduledTimer = undefined
-		state.allCompleteScheduledCycle = undefined
-		state.allCompleteScheduledCycleToken = undefined
 	}
+	if (
+		schema.required !== undefined &&
+		!(Array.isArray(schema.required) && schema.required.every((key) => typeof key === "string"))
+	) {
+		throw new Error(`${at}.required must be an array of property names`)
+	}
+	if (schema.items !== undefined) checkOutputSchemaNode(schema.items, `${at}.items`)
+	if (
+		schema.additionalProperties !== undefined &&
+		typeof schema.additionalProperties !== "boolean"
+	) {
+		checkOutputSchemaNode(schema.additionalProperties, `${at}.additionalProperties`)
+	}
+	for (const keyword of ["anyOf", "oneOf", "allOf"]) {
+		const alternatives = schema[keyword]
+		if (alternatives === undefined) continue
+		if (!Array.isArray(alternatives) || alternatives.length === 0) {
+			throw new Error(`${at}.${keyword} must be a non-empty array of schemas`)
+		}
+		alternatives.forEach((sub, index) => {
+			checkOutputSchemaNode(sub, `${at}.${keyword}[${index}]`)
+		})
+	}
+	if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+		throw new Error(`${at}.enum must be an array`)
+	}
+	for (const keyword of JSON_SCHEMA_BOUNDS) {
+		if (schema[keyword] !== undefined && typeof schema[keyword] !== "number") {
+			throw new Error(`${at}.${keyword} must be a number`)
+		}
+	}
+	if (schema.pattern !== undefined) {
+		if (typeof schema.pattern !== "string") {
+			throw new Error(`${at}.pattern must be a string`)
+		}
+		try {
+			new RegExp(schema.pattern, "u")
+		} catch (error) {
+			throw new Error(
+				`${at}.pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+}
 
-	private areCycleTerminalNotificationsComplete(
-		parentSessionID: string,
-		cycleToken: string,
-	): boolean {
-		let cycleDelegationCount = 0
-
-		for (const delegation of this.delegations.values()) {
-			if (delegation.parentSessionID !== parentSessionID) continue
-			if (delegation.notificationCycleToken !== cycleToken) continue
+/**
+ * Parse a caller-supplied output schema at boundary.
+ * Fail-fast: A schema the validator cannot apply, at any depth, is rejected before
+ * any session is created
+ */
+function parseOutputSchema(schema: unknown): JsonSchema {
+	checkOutputSchemaNode(schema, "outputSchema")
+	return schema
+}
 
-			cycleDelegationCount += 1
-			if (!delegation.notification.terminalNotifiedAt) {
-				return false
-			}
+/**
+ * Validate a value against the JSON Schema subset sub-agents are asked to follow:
+ * type, enum, const, anyOf/oneOf/allOf, properties, required, additionalProperties,
+ * items, and length, size and range bounds; parseOutputSchema rejects other keywords.
+ * Returns errors with `$`-rooted paths; empty when the value is valid.
+ */
+function validateJsonSchema(value: unknown, schema: JsonSchema, at = "$"): string[] {
+	const type = getJsonType(value)
+	if (schema.type !== undefined) {
+		const allowed = Array.isArray(schema.type) ? schema.type : [schema.type]
+		if (!allowed.some((option) => option === type || (option === "number" && type === "integer"))) {
+			return [`${at}: expected ${allowed.join(" | ")}, got ${type}`]
 		}
-
-		return cycleDelegationCount > 0
 	}
 
-	private scheduleAllCompleteForParent(parentSessionID: string, parentAgent: string): void {
-		const state = this.getParentNotificationState(parentSessionID)
-		const cycle = state.allCompleteCycle
-		const cycleToken = state.allCompleteCycleToken
-		if (!this.areCycleTerminalNotificationsComplete(parentSessionID, cycleToken)) return
+	const errors: string[] = []
+	if (Array.isArray(schema.enum) && !schema.enum.some((option) => jsonEquals(option, value))) {
+		errors.push(`${at}: expected one of ${JSON.stringify(schema.enum)}`)
+	}
+	if ("const" in schema && !jsonEquals(schema.const, value)) {
+		errors.push(`${at}: expected ${JSON.stringify(schema.const)}`)
+	}
 
-		if (state.allCompleteNotifiedCycleToken === cycleToken) return
-		if (state.allCompleteScheduledCycleToken === cycleToken) return
+	const alternatives = (keyword: string) =>
+		Array.isArray(schema[keyword]) ? (schema[keyword] as unknown[]).filter(isJsonSchema) : []
+	const anyOf = alternatives("anyOf")
+	if (anyOf.length > 0 && !anyOf.some((sub) => validateJsonSchema(value, sub, at).length === 0)) {
+		errors.push(`${at}: does not match any allowed schema (anyOf)`)
+	}
+	const oneOf = alternatives("oneOf")
+	if (oneOf.length > 0) {
+		const matches = oneOf.filter((sub) => validateJsonSchema(value, sub, at).length === 0).length
+		if (matches !== 1)
+			errors.push(`${at}: must match exactly one schema (oneOf), matched ${matches}`)
+	}
+	for (const sub of alternatives("allOf")) errors.push(...validateJsonSchema(value, sub, at))
 
-		this.cancelScheduledAllComplete(state)
+	const bound = (keyword: string) =>
+		typeof schema[keyword] === "number" ? (schema[keyword] as number) : undefined
 
-		state.allCompleteScheduledCycle = cycle
-		state.allCompleteScheduledCycleToken = cycleToken
-		state.allCompleteScheduledTimer = setTimeout(() => {
-			void this.dispatchScheduledAllComplete(parentSessionID, parentAgent, cycle, cycleToken)
-		}, this.allCompleteQuietPeriodMs)
+	if (typeof value === "string") {
+		const minLength = bound("minLength")
+		const maxLength = bound("maxLength")
+		if (minLength !== undefined && value.length < minLength) {
+			errors.push(`${at}: shorter than ${minLength} characters`)
+		}
+		if (maxLength !== undefined && value.length > maxLength) {
+			errors.push(`${at}: longer than ${maxLength} characters`)
+		}
+		if (typeof schema.pattern === "string") {
+			try {
+				if (!new RegExp(schema.pattern, "u").test(value)) {
+					errors.push(`${at}: does not match pattern ${schema.pattern}`)
+				}
+			} catch {
+				// Unreachable for parsed schemas: parseOutputSchema rejects invalid patterns
+			}
+		}
 	}
 
-	private async dispatchScheduledAllComplete(
-		parentSessionID: string,
-		parentAgent: string,
-		cycle: number,
-		cycleToken: string,
-	): Promise<void> {
-		const state = this.getParentNotificationState(parentSessionID)
+	if (typeof value === "number") {
+		const minimum = bound("minimum")
+		const maximum = bound("maximum")
+		const exclusiveMinimum = bound("exclusiveMinimum")
+		const exclusiveMaximum = bound("exclusiveMaximum")
+		if (minimum !== undefined && value < minimum) errors.push(`${at}: less than ${minimum}`)
+		if (maximum !== undefined && value > maximum) errors.push(`${at}: greater than ${maximum}`)
+		if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) {
+			errors.push(`${at}: must be greater than ${exclusiveMinimum}`)
+		}
+		if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+			errors.push(`${at}: must be less than ${exclusiveMaximum}`)
+		}
+	}
 
-		if (state.allCompleteScheduledCycleToken !== cycleToken) return
+	if (Array.isArray(value)) {
+		const minItems = bound("minItems")
+		const maxItems = bound("maxItems")
+		if (minItems !== undefined && value.length < minItems) {
+			errors.push(`${at}: fewer than ${minItems} items`)
+		}
+		if (maxItems !== undefined && value.length > maxItems) {
+			errors.push(`${at}: more than ${maxItems} items`)
+		}
+		const items = schema.items
+		if (isJsonSchema(items)) {
+			value.forEach((item, index) => {
+				errors.push(...validateJsonSchema(item, items, `${at}[${index}]`))
+			})
+		}
+	}
 
-		this.cancelScheduledAllComplete(state)
+	if (isJsonSchema(value)) {
+		const properties = isJsonSchema(schema.properties) ? schema.properties : {}
+		const required = Array.isArray(schema.required) ? schema.required : []
+		for (const key of required) {
+			if (typeof key === "string" && !(key in value)) {
+				errors.push(`${at}.${key}: required property is missing`)
+			}
+		}
+		for (const [key, propertyValue] of Object.entries(value)) {
+			const propertySchema = properties[key]
+			if (isJsonSchema(propertySchema)) {
+				errors.push(...validateJsonSchema(propertyValue, propertySchema, `${at}.${key}`))
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${at}.${key}: unexpected property`)
+			} else if (isJsonSchema(schema.additionalProperties)) {
+				errors.push(
+					...validateJsonSchema(propertyValue, schema.additionalProperties, `${at}.${key}`),
+				)
+			}
+		}
+	}
 
-		if (state.allCompleteCycleToken !== cycleToken) return
-		if (!this.areCycleTerminalNotificationsComplete(parentSessionID, cycleToken)) return
-		if (state.allCompleteNotifiedCycleToken === cycleToken) return
+	return errors
+}
 
+/**
+ * Pull the JSON answer out of a sub-agent's final message: the last fenced code
+ * block that parses, else the whole message, else the outermost {...} or [...] span.
+ */
+function extractJsonValue(text: string): { value: unknown } | { error: string } {
+	const fenced = Array.from(text.matchAll(/```(?:json)?[^\S\n]*\n([\s\S]*?)```/g), (m) => m[1])
+	const candidates = [...fenced.reverse(), text.trim()]
+	const start = text.search(/[{[]/)
+	const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"))
+	if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1))
+
+	let firstError: string | undefined
+	for (const candidate of candidates) {
 		try {
-			await this.client.session.prompt({
-				path: { id: parentSessionID },
-				body: {
-					noReply: false,
-					agent: parentAgent,
-					parts: [
-						{
-							type: "text",
-							text: this.buildAllCompleteNotification(parentSessionID, cycle, cycleToken),
-						},
-					],
-				},
-			})
+			return { value: JSON.parse(candidate) }
 		} catch (error) {
-			await this.debugLog(
-				`all-complete notification failed for ${parentSessionID} cycle=${cycleToken}: ${
-					error instanceof Error ? error.message : "Unknown error"
-				}`,
-			)
-			return
+			firstError ??= error instanceof Error ? error.message : String(error)
 		}
+	}
+	return { error: `no parseable JSON in the final answer (${firstError ?? "empty answer"})` }
+}
 
-		if (state.allCompleteCycleToken !== cycleToken) return
-		if (!this.areCycleTerminalNotificationsComplete(parentSessionID, cycleToken)) return
+/**
+ * Extract and validate a structured answer. Errors are capped so a repair prompt stays short.
+ */
+function checkStructuredOutput(
+	text: string,
+	schema: JsonSchema,
+): { value?: unknown; errors: string[] } {
+	const extracted = extractJsonValue(text)
+	if ("error" in extracted) return { errors: [extracted.error] }
+
+	const errors = validateJsonSchema(extracted.value, schema)
+	if (errors.length > STRUCTURED_OUTPUT_MAX_ERRORS) {
+		const omitted = errors.length - STRUCTURED_OUTPUT_MAX_ERRORS
+		return { errors: [...errors.slice(0, STRUCTURED_OUTPUT_MAX_ERRORS), `… ${omitted} more`] }
+	}
+	return errors.length > 0 ? { errors } : { value: extracted.value, errors }
+}
 
-		state.allCompleteNotifiedAt = new Date()
-		state.allCompleteNotificationCount += 1
-		state.allCompleteNotifiedCycle = cycle
-		state.allCompleteNotifiedCycleToken = cycleToken
+function buildStructuredOutputInstructions(schema: JsonSchema): string {
+	return `## Output format
+
+End your final answer with a single \`\`\`json code block holding a JSON value that matches this JSON Schema. Findings in prose may come before it, but the JSON block must be last.
+
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\``
+}
+
+function buildStructuredOutputRepairPrompt(errors: string[]): string {
+	return `Your final answer did not match the required JSON Schema:
+
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Reply with your final answer again, ending with a corrected \`\`\`json code block that matches the schema. Do not redo the research.`
+}
+
+// ==========================================
+// SECRET REDACTION
+// ==========================================
+
+/**
+ * Known credential formats. A named `secret` group limits the replacement to that
+ * part, so the surrounding key name or URL stays readable.
+ */
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+	{
+		name: "private-key",
+		pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+	},
+	{ name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+	{
+		name: "github-token",
+		pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g,
+	},
+	{ name: "api-key", pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+	{ name: "stripe-key", pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}/g },
+	{ name: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+	{ name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+	{
+		name: "jwt",
+		pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+	},
+	{ name: "bearer-token", pattern: /\bBearer[ \t]+(?<secret>[A-Za-z0-9._~+/-]{20,}=*)/g },
+	{
+		name: "url-credentials",
+		pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?!\[REDACTED)(?<secret>[^\s@/]+)@/gi,
+	},
+	// .env lines: API_KEY=..., export DB_PASSWORD="..."
+	{
+		name: "env-secret",
+		pattern:
+			/^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|PRIVATE_KEY|ACCESS_KEY|CREDENTIALS?)[A-Z0-9_]*[ \t]*[=:][ \t]*["']?(?!\[REDACTED|[0-9.]+(?:[\s"'#]|$))(?<secret>[^\s"'#]{6,})/gm,
+	},
+	// Config/JSON style: "apiKey": "...", password: '...'
+	{
+		name: "credential",
+		pattern:
+			/["']?(?:api[_-]?key|secret|client[_-]?secret|access[_-]?token|auth[_-]?token|password|passwd)["']?[ \t]*[:=][ \t]*["'](?!\[REDACTED)(?<secret>[^"'\s]{8,})["']/gi,
+	},
+]
+
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+_=-]{32,}/g
+const HIGH_ENTROPY_MIN_BITS = 4
+// Two adjacent words (CamelCase, camelCase or SCREAMING_SNAKE) mark a code identifier
+const IDENTIFIER_WORD_RUN = /(?:[A-Z][a-z]{3,}){2}|[a-z]{4,}[A-Z][a-z]{3,}|[A-Z]{3,}_[A-Z]{3,}/
+
+function shannonEntropy(value: string): number {
+	const counts = new Map<string, number>()
+	for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1)
+	let entropy = 0
+	for (const count of counts.values()) {
+		const probability = count / value.length
+		entropy -= probability * Math.log2(probability)
 	}
+	return entropy
+}
 
-	private markRetrieved(id: string, readerSessionID: string): DelegationRecord | undefined {
-		return this.updateDelegation(id, (delegation, now) => {
-			delegation.retrieval.retrievedAt = now
-			delegation.retrieval.retrievalCount += 1
-			delegation.retrieval.lastReaderSessionID = readerSessionID
+/**
+ * Random-looking token: mixed case with digits and high per-character entropy.
+ * Lowercase hex (commit SHAs, UUIDs), identifiers without digits and ones made of
+ * readable words never qualify.
+ */
+function isHighEntropySecret(token: string): boolean {
+	return (
+		!IDENTIFIER_WORD_RUN.test(token) &&
+		/[a-z]/.test(token) &&
+		/[A-Z]/.test(token) &&
+		/[0-9]/.test(token) &&
+		shannonEntropy(token) >= HIGH_ENTROPY_MIN_BITS
+	)
+}
+
+/**
+ * Replace secrets in text that is about to be persisted.
+ * Returns the scrubbed text and how many secrets were replaced.
+ */
+function redactSecrets(text: string, policy: RedactionPolicy): { text: string; count: number } {
+	if (!policy.enabled || text.length === 0) return { text, count: 0 }
+
+	let count = 0
+	const replace = (input: string, name: string, pattern: RegExp) =>
+		input.replace(pattern, (match: string, ...args: unknown[]) => {
+			if (match.length === 0) return match
+			const groups = args[args.length - 1]
+			const secret =
+				typeof groups === "object" && groups !== null
+					? (groups as { secret?: string }).secret
+					: undefined
+			count += 1
+			const marker = `[REDACTED:${name}]`
+			return secret ? match.replace(secret, marker) : marker
+		})
+
+	let redacted = text
+	for (const { name, pattern } of SECRET_PATTERNS) redacted = replace(redacted, name, pattern)
+	for (const pattern of policy.patterns) redacted = replace(redacted, "custom", pattern)
+	if (policy.highEntropy) {
+		redacted = redacted.replace(HIGH_ENTROPY_CANDIDATE, (token) => {
+			if (!isHighEntropySecret(token)) return token
+			count += 1
+			return "[REDACTED:high-entropy]"
 		})
 	}
+	return { text: redacted, count }
+}
 
-	private hasUnreadCompletion(delegation: DelegationRecord): boolean {
-		if (!isTerminalStatus(delegation.status)) return false
-		if (!delegation.notification.terminalNotifiedAt) return false
-		if (!delegation.completedAt) return false
+// ==========================================
+// ARTIFACT METADATA
+// ==========================================
 
-		if (!delegation.retrieval.retrievedAt) return true
-		return delegation.retrieval.retrievedAt.getTime() < delegation.completedAt.getTime()
-	}
+/**
+ * Path of a file stored next to a delegation's markdown artifact.
+ */
+function getArtifactSidecarPath(artifactPath: string, extension: string): string {
+	return artifactPath.replace(/\.md$/, extension)
+}
 
-	private async waitForTerminal(id: string, timeoutMs: number): Promise<"terminal" | "timeout"> {
-		const delegation = this.delegations.get(id)
-		if (!delegation) return "timeout"
-		if (isTerminalStatus(delegation.status)) return "terminal"
+/** Sidecar files removed and counted together with a delegation's artifact */
+const ARTIFACT_SIDECAR_EXTENSIONS = [
+	".meta.json",
+	".transcript.md",
+	".patch",
+	".json",
+	".summary.json",
+]
 
-		const waiter = this.terminalWaiters.get(id)
-		if (!waiter) return "timeout"
+/**
+ * Cached condensed reads, keyed by token budget. An entry is stale once the
+ * artifact's hash changes (a continuation turn rewrites the artifact).
+ */
+interface ArtifactSummaryCache {
+	version: number
+	entries: Record<string, { sourceHash: string; summary: string; createdAt: string }>
+}
 
-		let timer: ReturnType<typeof setTimeout> | undefined
-		try {
-			const result = await Promise.race<"terminal" | "timeout">([
-				waiter.promise.then(() => "terminal"),
-				new Promise<"timeout">((resolve) => {
-					timer = setTimeout(() => resolve("timeout"), timeoutMs)
-				}),
-			])
-			return result
-		} finally {
-			if (timer) clearTimeout(timer)
+const SUMMARY_CACHE_VERSION = 1
+
+function hashContent(content: string): string {
+	return createHash("sha256").update(content).digest("hex").slice(0, 16)
+}
+
+/**
+ * Parse a summary cache sidecar at boundary.
+ * Fail-safe: A missing, unreadable or foreign file is treated as an empty cache
+ */
+async function readSummaryCache(artifactPath: string): Promise<ArtifactSummaryCache> {
+	try {
+		const raw = await fs.readFile(getArtifactSidecarPath(artifactPath, ".summary.json"), "utf8")
+		const parsed = JSON.parse(raw) as Partial<ArtifactSummaryCache>
+		if (parsed.version === SUMMARY_CACHE_VERSION && typeof parsed.entries === "object") {
+			return { version: SUMMARY_CACHE_VERSION, entries: parsed.entries ?? {} }
 		}
+	} catch {
+		// No cache yet
 	}
+	return { version: SUMMARY_CACHE_VERSION, entries: {} }
+}
 
-	private async generateUniqueDelegationId(artifactDir: string): Promise<string> {
-		for (let attempt = 0; attempt < 20; attempt++) {
-			const candidate = this.idGenerator()
-			if (this.delegations.has(candidate)) continue
+/**
+ * Whether a file in a delegations directory is a delegation artifact (not a sidecar)
+ */
+function isArtifactFileName(file: string): boolean {
+	return file.endsWith(".md") && !file.endsWith(".transcript.md")
+}
 
-			const candidatePath = path.join(artifactDir, `${candidate}.md`)
-			try {
-				await fs.access(candidatePath)
-			} catch {
-				return candidate
-			}
-		}
+function buildArtifactMetadata(delegation: DelegationRecord): DelegationArtifactMetadata {
+	return {
+		version: ARTIFACT_METADATA_VERSION,
+		id: delegation.id,
+		title: delegation.title,
+		description: delegation.description,
+		tags: delegation.tags,
+		entities: delegation.entities,
+		agent: delegation.agent,
+		status: delegation.status,
+		prompt: delegation.prompt,
+		sessionID: delegation.sessionID,
+		rootSessionID: delegation.rootSessionID,
+		parentSessionID: delegation.parentSessionID,
+		parentMessageID: delegation.parentMessageID,
+		parentAgent: delegation.parentAgent,
+		createdAt: delegation.createdAt.toISOString(),
+		startedAt: delegation.startedAt?.toISOString(),
+		completedAt: delegation.completedAt?.toISOString(),
+		maxRunTimeMs: delegation.maxRunTimeMs,
+		attempts: delegation.attempts.map((attempt) => ({
+			...attempt,
+			startedAt: attempt.startedAt.toISOString(),
+			endedAt: attempt.endedAt?.toISOString(),
+		})),
+		error: delegation.error,
+		byteLength: delegation.artifact.byteLength,
+		retrievalCount: delegation.retrieval.retrievalCount,
+		retrievedAt: delegation.retrieval.retrievedAt?.toISOString(),
+		groupID: delegation.groupID,
+		dependsOn: delegation.dependsOn.length > 0 ? delegation.dependsOn : undefined,
+		pinned: delegation.pinned || undefined,
+		usage: delegation.usage,
+		model: delegation.model,
+		outputSchema: delegation.outputSchema,
+		structuredOutput: delegation.structuredOutput,
+		redactions: delegation.redactions,
+		worktree: delegation.worktree
+			? {
+					baseCommit: delegation.worktree.baseCommit,
+					patchPath: delegation.worktree.patchPath,
+					filesChanged: delegation.worktree.filesChanged,
+				}
+			: undefined,
+		turns:
+			delegation.turns.length > 0
+				? delegation.turns.map((turn) => ({
+						...turn,
+						requestedAt: turn.requestedAt.toISOString(),
+					}))
+				: undefined,
+	}
+}
 
-		throw new Error("Failed to generate unique delegation ID after 20 attempts")
+function getCurrentTurn(delegation: DelegationRecord): number {
+	return delegation.turns.length + 1
+}
+
+/**
+ * Extra artifact header lines beyond the fixed ID/agent/status block.
+ */
+function buildArtifactHeaderDetails(delegation: DelegationRecord): string[] {
+	const lines: string[] = []
+
+	if (delegation.tags?.length) lines.push(`**Tags:** ${delegation.tags.join(", ")}`)
+	if (delegation.entities?.length) lines.push(`**Entities:** ${delegation.entities.join(", ")}`)
+
+	if (delegation.turns.length > 0) {
+		lines.push(`**Turns:** ${getCurrentTurn(delegation)}`)
 	}
 
-	private getDelegationBySession(sessionID: string): DelegationRecord | undefined {
-		const delegationId = this.delegationsBySession.get(sessionID)
-		if (!delegationId) return undefined
-		return this.delegations.get(delegationId)
+	if (delegation.worktree) {
+		const { patchPath, filesChanged, baseCommit } = delegation.worktree
+		lines.push(
+			patchPath
+				? `**Patch:** ${patchPath} (${filesChanged ?? 0} files changed against ${baseCommit.slice(0, 12)}; written verbatim, not redacted)`
+				: "**Patch:** no changes",
+		)
 	}
 
-	private isVisibleToSession(delegation: DelegationRecord, rootSessionID: string): boolean {
-		return delegation.rootSessionID === rootSessionID
+	if (delegation.model) {
+		lines.push(`**Requested model:** ${delegation.model.providerID}/${delegation.model.modelID}`)
 	}
 
-	private buildTerminalNotification(delegation: DelegationRecord, remainingCount: number): string {
-		const lines = [
-			"<task-notification>",
-			`<task-id>${delegation.id}</task-id>`,
-			`<status>${delegation.status}</status>`,
-			`<summary>Background agent ${delegation.status}: ${delegation.title || delegation.id}</summary>`,
-			delegation.title ? `<title>${delegation.title}</title>` : "",
-			delegation.description ? `<description>${delegation.description}</description>` : "",
-			delegation.error ? `<error>${delegation.error}</error>` : "",
-			`<artifact>${delegation.artifact.filePath}</artifact>`,
-			`<retrieval>Use delegation_read("${delegation.id}") for full output.</retrieval>`,
-			remainingCount > 0 ? `<remaining>${remainingCount}</remaining>` : "",
-			"</task-notification>",
-		]
+	if (delegation.redactions) {
+		lines.push(
+			`**Redactions:** ${delegation.redactions} secret${delegation.redactions === 1 ? "" : "s"} replaced before writing`,
+		)
+	}
 
-		return lines.filter((line) => line.length > 0).join("\n")
+	if (delegation.structuredOutput) {
+		const { valid, repairs, path: jsonPath, errors } = delegation.structuredOutput
+		const repairPart = repairs > 0 ? ` after ${repairs} repair${repairs === 1 ? "" : "s"}` : ""
+		if (valid) {
+			lines.push(
+				`**Structured output:** ${jsonPath} (valid${repairPart}; written verbatim, not redacted)`,
+			)
+		} else {
+			lines.push(`**Structured output:** invalid${repairPart}`)
+			for (const error of errors ?? []) lines.push(`- ${error}`)
+		}
 	}
 
-	private buildAllCompleteNotification(
-		parentSessionID: string,
-		cycle: number,
-		cycleToken: string,
-	): string {
-		// cycle-token is a boundary watermark.
-		// Receivers should ignore all-complete payloads whose token is older than
-		// the latest known registration cycle for this parent session.
-		return [
-			"<task-notification>",
-			"<type>all-complete</type>",
-			"<status>completed</status>",
-			"<summary>All delegations complete.</summary>",
-			`<parent-session-id>${parentSessionID}</parent-session-id>`,
-			`<cycle>${cycle}</cycle>`,
-			`<cycle-token>${cycleToken}</cycle-token>`,
-			"</task-notification>",
-		].join("\n")
+	if (delegation.usage) {
+		const model = formatUsageModel(delegation.usage)
+		if (model) lines.push(`**Model:** ${model}`)
+		lines.push(`**Usage:** ${formatUsage(delegation.usage)}`)
 	}
 
-	private buildDeterministicTerminalReadResponse(delegation: DelegationRecord): string {
-		const lines = [
-			`Delegation ID: ${delegation.id}`,
-			`Status: ${delegation.status}`,
-			`Agent: ${delegation.agent}`,
-			`Started: ${delegation.startedAt?.toISOString() || delegation.createdAt.toISOString()}`,
-			`Completed: ${delegation.completedAt?.toISOString() || "N/A"}`,
-			`Artifact: ${delegation.artifact.filePath}`,
-		]
+	if (delegation.attempts.length > 1) {
+		lines.push(`**Attempts:** ${delegation.attempts.length}`)
+		for (const attempt of delegation.attempts) {
+			const duration =
+				attempt.durationMs !== undefined ? ` after ${(attempt.durationMs / 1000).toFixed(1)}s` : ""
+			const outcome = attempt.error ? `failed${duration}: ${attempt.error}` : `ran${duration}`
+			lines.push(`- Attempt ${attempt.attempt} (${attempt.sessionID}) ${outcome}`)
+		}
+	}
 
-		if (delegation.title) lines.push(`Title: ${delegation.title}`)
-		if (delegation.description) lines.push(`Description: ${delegation.description}`)
-		if (delegation.error) lines.push(`Error: ${delegation.error}`)
+	return lines
+}
 
-		lines.push(`\nUse delegation_read("${delegation.id}") again after persistence completes.`)
-		return lines.join("\n")
-	}
+/**
+ * Parse the markdown header written before metadata sidecars existed.
+ */
+function parseLegacyArtifactHeader(id: string, content: string): DelegationArtifactMetadata {
+	const titleMatch = content.match(/^# (.+)$/m)
+	const agentMatch = content.match(/^\*\*Agent:\*\* (.+)$/m)
+	const statusMatch = content.match(/^\*\*Status:\*\* (.+)$/m)
+	const sessionMatch = content.match(/^\*\*Session:\*\* (.+)$/m)
+	const startedMatch = content.match(/^\*\*Started:\*\* (.+)$/m)
+	const completedMatch = content.match(/^\*\*Completed:\*\* (.+)$/m)
+	// Get first paragraph after title as description
+	const lines = content.split("\n")
 
-	private async readPersistedArtifact(filePath: string): Promise<string | null> {
-		try {
-			return await fs.readFile(filePath, "utf8")
-		} catch {
-			return null
-		}
+	return {
+		version: 0,
+		id,
+		title: titleMatch?.[1] ?? "(loaded from storage)",
+		description: lines.length > 2 && lines[2] ? lines[2].slice(0, 150) : "",
+		agent: agentMatch?.[1],
+		status: parsePersistedStatus(statusMatch?.[1]?.trim()),
+		sessionID: sessionMatch?.[1]?.trim(),
+		startedAt: startedMatch?.[1]?.trim(),
+		completedAt: completedMatch?.[1]?.trim() === "N/A" ? undefined : completedMatch?.[1]?.trim(),
 	}
+}
 
-	private async waitForPersistedArtifact(
-		filePath: string,
-		maxWaitMs: number,
-	): Promise<string | null> {
-		const start = Date.now()
-		while (Date.now() - start < maxWaitMs) {
-			const content = await this.readPersistedArtifact(filePath)
-			if (content !== null) return content
-			await new Promise((resolve) => setTimeout(resolve, this.readPollIntervalMs))
+/**
+ * Read artifact metadata at boundary.
+ * Prefers the JSON sidecar and falls back to the legacy markdown header.
+ */
+async function readArtifactMetadata(
+	artifactPath: string,
+	id: string,
+): Promise<DelegationArtifactMetadata | null> {
+	try {
+		const raw = await fs.readFile(getArtifactSidecarPath(artifactPath, ".meta.json"), "utf8")
+		const parsed = JSON.parse(raw) as Partial<DelegationArtifactMetadata>
+		if (typeof parsed.id === "string" && typeof parsed.version === "number") {
+			return {
+				...parsed,
+				id: parsed.id,
+				version: parsed.version,
+				status: parsePersistedStatus(parsed.status),
+			}
 		}
+	} catch {
+		// No sidecar (legacy artifact) or unreadable sidecar
+	}
 
+	try {
+		const content = await fs.readFile(artifactPath, "utf8")
+		return parseLegacyArtifactHeader(id, content)
+	} catch {
 		return null
 	}
+}
 
-	private async resolveDelegationResult(delegation: DelegationRecord): Promise<string> {
-		if (delegation.status === "error") {
-			return `Error: ${delegation.error || "Delegation failed."}`
-		}
+// ==========================================
+// DEPENDENCY RESULT INJECTION
+// ==========================================
 
-		if (delegation.status === "cancelled") {
-			return "Delegation was cancelled before completion."
+/**
+ * Format dependency results for prepending to a dependent delegation's prompt.
+ * Long artifacts are truncated with a pointer to the full output.
+ */
+function formatDependencyContext(
+	dependencies: { id: string; status: DelegationStatus; title?: string; content: string | null }[],
+): string {
+	const sections = dependencies.map((dependency) => {
+		const heading = `## Result of \`${dependency.id}\`${dependency.title ? ` (${dependency.title})` : ""} [${dependency.status}]`
+		if (dependency.content === null) {
+			return `${heading}\n\n(No persisted output available.)`
 		}
-
-		if (delegation.status === "timeout") {
-			const partial = await this.getResult(delegation)
-			return `${partial}\n\n[TIMEOUT REACHED]`
+		if (dependency.content.length <= DEPENDENCY_RESULT_MAX_CHARS) {
+			return `${heading}\n\n${dependency.content}`
 		}
+		return `${heading}\n\n${dependency.content.slice(0, DEPENDENCY_RESULT_MAX_CHARS)}\n\n[Truncated. Full output: delegation_read("${dependency.id}")]`
+	})
 
-		return await this.getResult(delegation)
-	}
+	return [
+		"<dependency-results>",
+		"The following results from earlier delegations are provided as input for your task.",
+		"",
+		sections.join("\n\n"),
+		"</dependency-results>",
+	].join("\n")
+}
 
-	private async finalizeDelegation(
-		delegationId: string,
-		status: DelegationTerminalStatus,
-		error?: string,
-	): Promise<void> {
-		const { transitioned, delegation } = this.markTerminal(delegationId, status, error)
-		if (!transitioned || !delegation) return
+// ==========================================
+// ARTIFACT SEARCH
+// ==========================================
 
-		await this.debugLog(`finalizeDelegation(${delegation.id}, ${status}) started`)
+const SEARCH_FIELD_WEIGHTS = {
+	title: 5,
+	description: 3,
+	prompt: 2,
+	body: 1,
+} as const
+
+const SEARCH_DEFAULT_LIMIT = 10
+const SEARCH_MAX_SNIPPETS = 3
+const SEARCH_SNIPPET_LENGTH = 200
+
+function tokenizeSearchQuery(query: string): string[] {
+	return Array.from(
+		new Set(
+			query
+				.toLowerCase()
+				.split(/[^\p{L}\p{N}_-]+/u)
+				.filter((term) => term.length > 1),
+		),
+	)
+}
 
-		const resolvedResult = await this.resolveDelegationResult(delegation)
-		delegation.result = resolvedResult
+function countOccurrences(haystack: string, needle: string): number {
+	let count = 0
+	let index = haystack.indexOf(needle)
+	while (index !== -1) {
+		count += 1
+		index = haystack.indexOf(needle, index + needle.length)
+	}
+	return count
+}
 
-		if (resolvedResult.trim().length > 0) {
-			const metadata = await this.metadataGenerator(
-				this.client,
-				resolvedResult,
-				delegation.sessionID,
-				(msg) => this.debugLog(msg),
-			)
-			delegation.title = metadata.title
-			delegation.description = metadata.description
+/**
+ * Score a document against the query terms.
+ * Each term is weighted by the field it appears in; body hits are capped so long
+ * artifacts don't drown out precise title matches. Exact phrase hits get a bonus.
+ */
+function scoreSearchDocument(
+	query: string,
+	terms: string[],
+	fields: Record<keyof typeof SEARCH_FIELD_WEIGHTS, string>,
+): number {
+	const phrase = query.trim().toLowerCase()
+	let score = 0
+
+	for (const [field, weight] of Object.entries(SEARCH_FIELD_WEIGHTS)) {
+		const text = fields[field as keyof typeof SEARCH_FIELD_WEIGHTS].toLowerCase()
+		if (!text) continue
+
+		for (const term of terms) {
+			score += weight * Math.min(countOccurrences(text, term), 5)
 		}
+		if (terms.length > 1 && phrase && text.includes(phrase)) {
+			score += weight * 3
+		}
+	}
 
-		await this.persistOutput(delegation, resolvedResult)
-		await this.notifyParent(delegation.id)
+	return score
+}
+
+/**
+ * Extract the lines containing query terms, with line numbers, for result snippets.
+ */
+function extractSearchSnippets(content: string, terms: string[]): string[] {
+	const snippets: string[] = []
+	const lines = content.split("\n")
+
+	for (let index = 0; index < lines.length && snippets.length < SEARCH_MAX_SNIPPETS; index++) {
+		const line = lines[index].trim()
+		if (!line) continue
+		const lowered = line.toLowerCase()
+		if (!terms.some((term) => lowered.includes(term))) continue
+
+		const truncated =
+			line.length > SEARCH_SNIPPET_LENGTH ? `${line.slice(0, SEARCH_SNIPPET_LENGTH)}...` : line
+		snippets.push(`L${index + 1}: ${truncated}`)
 	}
 
-	private async notifyParent(delegationId: string): Promise<void> {
-		try {
-			const delegation = this.delegations.get(delegationId)
-			if (!delegation) return
-			if (!isTerminalStatus(delegation.status)) return
-			if (delegation.notification.terminalNotifiedAt) {
-				await this.debugLog(`notifyParent skipped for ${delegation.id}; already notified`)
-				return
-			}
+	return snippets
+}
 
-			const remainingCount = this.getPendingCount(delegation.parentSessionID)
-			const terminalNotification = this.buildTerminalNotification(delegation, remainingCount)
+/**
+ * Strip the markdown header so the body is scored separately from metadata.
+ */
+function getArtifactBody(content: string): string {
+	const separatorIndex = content.indexOf("\n---\n")
+	return separatorIndex === -1 ? content : content.slice(separatorIndex + 5)
+}
 
-			await this.client.session.prompt({
-				path: { id: delegation.parentSessionID },
-				body: {
-					noReply: true,
-					agent: delegation.parentAgent,
-					parts: [{ type: "text", text: terminalNotification }],
-				},
-			})
+// ==========================================
+// ARTIFACT PAGINATION
+// ==========================================
 
-			this.markNotified(delegation.id)
-			this.scheduleAllCompleteForParent(delegation.parentSessionID, delegation.parentAgent)
+/** Reads above this size are paged and prefixed with a table of contents */
+const READ_PAGE_THRESHOLD_BYTES = 32 * 1024
+const READ_DEFAULT_PAGE_LINES = 300
+const READ_DEFAULT_PAGE_BYTES = READ_PAGE_THRESHOLD_BYTES
+const READ_TOC_MAX_ENTRIES = 60
+
+interface ArtifactPageOptions {
+	/** 0-based line or byte to start from */
+	offset?: number
+	limit?: number
+	unit?: "lines" | "bytes"
+	/** Heading text; the page covers that section and its subsections */
+	section?: string
+}
 
-			await this.debugLog(
-				`notifyParent sent for ${delegation.id} (remaining=${remainingCount}, status=${delegation.status})`,
-			)
-		} catch (error) {
-			await this.debugLog(
-				`notifyParent failed for ${delegationId}: ${error instanceof Error ? error.message : "Unknown error"}`,
-			)
+interface MarkdownHeading {
+	level: number
+	title: string
+	/** 0-based line index */
+	line: number
+}
+
+/**
+ * Markdown headings outside fenced code blocks
+ */
+function parseMarkdownHeadings(content: string): MarkdownHeading[] {
+	const headings: MarkdownHeading[] = []
+	let inFence = false
+	content.split("\n").forEach((line, index) => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence
+			return
 		}
+		if (inFence) return
+		const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+		if (match) headings.push({ level: match[1].length, title: match[2], line: index })
+	})
+	return headings
+}
+
+function formatTableOfContents(headings: MarkdownHeading[]): string {
+	const entries = headings
+		.slice(0, READ_TOC_MAX_ENTRIES)
+		.map((heading) => `- L${heading.line + 1} ${"#".repeat(heading.level)} ${heading.title}`)
+	if (headings.length > READ_TOC_MAX_ENTRIES) {
+		entries.push(`- … ${headings.length - READ_TOC_MAX_ENTRIES} more headings`)
 	}
+	return entries.join("\n")
+}
 
-	/**
-	 * Delegate a task to an agent
-	 */
-	async delegate(input: DelegateInput): Promise<DelegationRecord> {
-		// Validate agent exists before creating session
-		const agentsResult = await this.client.app.agents({})
-		const agents = (agentsResult.data ?? []) as {
-			name: string
-			description?: string
-			mode?: string
-		}[]
-		const validAgent = agents.find((a) => a.name === input.agent)
+/**
+ * Find a section by heading text: an exact (case-insensitive) match first, then a
+ * unique partial match. The section runs until the next heading of the same or higher level.
+ */
+function findMarkdownSection(
+	content: string,
+	headings: MarkdownHeading[],
+	section: string,
+): { heading: MarkdownHeading; text: string } | undefined {
+	const query = section
+		.replace(/^#+\s*/, "")
+		.trim()
+		.toLowerCase()
+	const exact = headings.find((heading) => heading.title.toLowerCase() === query)
+	const partial = headings.filter((heading) => heading.title.toLowerCase().includes(query))
+	const heading = exact ?? (partial.length === 1 ? partial[0] : undefined)
+	if (!heading) return undefined
+
+	const next = headings.find((other) => other.line > heading.line && other.level <= heading.level)
+	const lines = content.split("\n")
+	return { heading, text: lines.slice(heading.line, next?.line ?? lines.length).join("\n") }
+}
 
-		if (!validAgent) {
-			const available = agents
-				.filter((a) => a.mode === "subagent" || a.mode === "all" || !a.mode)
-				.map((a) => `• ${a.name}${a.description ? ` - ${a.description}` : ""}`)
-				.join("\n")
+/**
+ * Move a byte index back to the start of the UTF-8 character it falls inside
+ */
+function snapToUtf8Boundary(buffer: Buffer, index: number): number {
+	let boundary = index
+	// Continuation bytes look like 10xxxxxx
+	while (boundary > 0 && boundary < buffer.length && (buffer[boundary] & 0xc0) === 0x80) {
+		boundary--
+	}
+	return boundary
+}
 
+/**
+ * Page through a large artifact. Content under the threshold is returned unchanged unless
+ * a page or section is requested; otherwise the page is prefixed with its range, a
+ * "more available" hint and (for large artifacts) a table of contents.
+ */
+function paginateArtifact(
+	content: string,
+	options: ArtifactPageOptions,
+	readCall: (nextOffset: number) => string,
+): string {
+	const totalBytes = Buffer.byteLength(content, "utf8")
+	const requested =
+		options.offset !== undefined || options.limit !== undefined || options.section !== undefined
+	if (!requested && totalBytes <= READ_PAGE_THRESHOLD_BYTES) return content
+
+	const headings = parseMarkdownHeadings(content)
+	const toc = totalBytes > READ_PAGE_THRESHOLD_BYTES ? formatTableOfContents(headings) : ""
+
+	let text = content
+	let label = ""
+	if (options.section !== undefined) {
+		const section = findMarkdownSection(content, headings, options.section)
+		if (!section) {
 			throw new Error(
-				`Agent "${input.agent}" not found.\n\nAvailable agents:\n${available || "(none)"}`,
+				`Section "${options.section}" not found.\n\n${headings.length > 0 ? `Available sections:\n${formatTableOfContents(headings)}` : "The output has no headings."}`,
 			)
 		}
+		text = section.text
+		label = ` of section "${section.heading.title}" (from L${section.heading.line + 1})`
+	}
 
-		// Check if agent is read-only (Early Exit + Fail Fast)
-		const { isReadOnly } = await parseAgentWriteCapability(this.client, input.agent, this.log)
-		if (!isReadOnly) {
-			throw new Error(
-				`Agent "${input.agent}" is write-capable and requires the native \`task\` tool for proper undo/branching support.\n\n` +
-					`Use \`task\` instead of \`delegate\` for write-capable agents.\n\n` +
-					`Read-only sub-agents (edit/write/bash denied) use \`delegate\`.\n` +
-					`Write-capable sub-agents (any write permission) use \`task\`.`,
-			)
+	const unit = options.unit ?? "lines"
+	const offset = options.offset ?? 0
+	const textBytes = Buffer.byteLength(text, "utf8")
+	const limit =
+		options.limit ??
+		(textBytes <= READ_PAGE_THRESHOLD_BYTES
+			? Number.POSITIVE_INFINITY
+			: unit === "bytes"
+				? READ_DEFAULT_PAGE_BYTES
+				: READ_DEFAULT_PAGE_LINES)
+
+	let page: string
+	let range: string
+	let nextOffset: number | undefined
+	if (unit === "bytes") {
+		const buffer = Buffer.from(text, "utf8")
+		if (offset >= buffer.length && buffer.length > 0) {
+			return `No content at byte offset ${offset}${label}: it has ${buffer.length} bytes.`
 		}
-
-		const artifactDir = await this.ensureDelegationsDir(input.parentSessionID)
-		const rootSessionID = await this.getRootSessionID(input.parentSessionID)
-		const stableId = await this.generateUniqueDelegationId(artifactDir)
-		const artifactPath = path.join(artifactDir, `${stableId}.md`)
-
-		await this.debugLog(`delegate() called, generated stable ID: ${stableId}`)
-
-		// Create isolated session for delegation
-		const sessionResult = await this.client.session.create({
-			body: {
-				title: `Delegation: ${stableId}`,
-				parentID: input.parentSessionID,
-			},
-		})
-
-		await this.debugLog(`session.create result: ${JSON.stringify(sessionResult.data)}`)
-
-		if (!sessionResult.data?.id) {
-			throw new Error("Failed to create delegation session")
+		// Pages start and end on character boundaries, so multibyte characters stay whole
+		const start = snapToUtf8Boundary(buffer, offset)
+		let end = snapToUtf8Boundary(buffer, Math.min(offset + limit, buffer.length))
+		// A limit smaller than one character still returns that character
+		if (end <= start) end = snapToUtf8Boundary(buffer, Math.min(start + 4, buffer.length))
+		page = buffer.subarray(start, end).toString("utf8")
+		range = `Bytes ${start}-${end} of ${buffer.length}`
+		if (end < buffer.length) nextOffset = end
+	} else {
+		const lines = text.split("\n")
+		if (offset >= lines.length) {
+			return `No content at line offset ${offset}${label}: it has ${lines.length} lines.`
 		}
+		let end = Math.min(offset + limit, lines.length)
+		// Default pages also stay within the byte budget (at least one line)
+		if (options.limit === undefined) {
+			let bytes = 0
+			for (let index = offset; index < end; index++) {
+				bytes += Buffer.byteLength(lines[index], "utf8") + 1
+				if (bytes > READ_DEFAULT_PAGE_BYTES && index > offset) {
+					end = index
+					break
+				}
+			}
+		}
+		page = lines.slice(offset, end).join("\n")
+		range = `Lines ${offset + 1}-${end} of ${lines.length}`
+		if (end < lines.length) nextOffset = end
+	}
 
-		const delegation = this.registerDelegation({
-			id: stableId,
-			rootSessionID,
-			sessionID: sessionResult.data.id,
-			parentSessionID: input.parentSessionID,
-			parentMessageID: input.parentMessageID,
-			parentAgent: input.parentAgent,
-			prompt: input.prompt,
-			agent: input.agent,
-			artifactPath,
-		})
-
-		await this.debugLog(`Registered delegation ${delegation.id} before execution`)
-		this.scheduleTimeout(delegation.id)
-		this.markStarted(delegation.id)
+	const preamble = [`[${range}${label} · ${(totalBytes / 1024).toFixed(1)} KB total]`]
+	if (nextOffset !== undefined) preamble.push(`More available: ${readCall(nextOffset)}`)
+	if (toc) preamble.push("", "Contents:", toc)
+	return `${preamble.join("\n")}\n\n---\n\n${page}`
+}
 
-		// Fire the prompt (using prompt() instead of promptAsync() to properly initialize agent loop)
-		// Agent param is critical for MCP tools - tells OpenCode which agent's config to use
-		// Anti-recursion: disable nested delegations and state-modifying tools via tools config
-		this.client.session
-			.prompt({
-				path: { id: delegation.sessionID },
-				body: {
-					agent: input.agent,
-					parts: [{ type: "text", text: input.prompt }],
-					tools: {
-						task: false,
-						delegate: false,
-						todowrite: false,
-						plan_save: false,
-					},
-				},
-			})
-			.catch((error: Error) => {
-				void this.finalizeDelegation(delegation.id, "error", error.message)
-			})
+class DelegationManager {
+	private delegations: Map<string, DelegationRecord> = new Map()
+	private delegationsBySession: Map<string, string> = new Map()
+	private terminalWaiters: Map<string, { promise: Promise<void>; resolve: () => void }> = new Map()
+	private timeoutTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+	private client: OpencodeClient
+	private baseDir: string
+	private log: Logger
+	private maxRunTimeMs: number
+	private readPollIntervalMs: number
+	private terminalWaitGraceMs: number
+	private allCompleteQuietPeriodMs: number
+	private maxConcurrentPerSession: number
+	private maxConcurrentPerProject: number
+	private retryPolicy: RetryPolicy
+	private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+	// Part IDs already counted per delegation (part updates repeat while a tool runs)
+	private seenProgressParts: Map<string, Set<string>> = new Map()
+	private dependencyFailurePolicy: DependencyFailurePolicy
+	private stallTimeoutMs: number
+	private stallAction: StallAction
+	private stallTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+	private retentionPolicy: RetentionPolicy
+	private redactionPolicy: RedactionPolicy
+	private retentionTimer?: ReturnType<typeof setInterval>
+	private pruneMutex = new Mutex()
+	private persistTranscripts: boolean
+	private structuredOutputMaxRepairs: number
+	// Delegations whose structured answer is being checked (idle events can repeat)
+	private structuredOutputChecks: Set<string> = new Set()
+	private projectDirectory?: string
+	// Repository root of projectDirectory, resolved on first patch apply
+	private gitTopLevel?: string
+	private debug: boolean
+	// Tools map sent with every sub-agent prompt (only entries set to false)
+	private childTools: Record<string, boolean>
+	private idGenerator: () => string
+	private metadataGenerator: typeof generateMetadata
+	private summaryGenerator: typeof generateSummary
+	private pendingByParent: Map<string, Set<string>> = new Map()
+	private parentNotificationState: Map<string, ParentNotificationState> = new Map()
+	private stateMutex = new Mutex()
+	// Names this instance's state file; other live instances in the project keep their own
+	private stateOwner: StateFileOwner = {
+		pid: process.pid,
+		instanceId: `${process.pid}-${randomBytes(4).toString("hex")}`,
+	}
+	private groups: Map<string, DelegationGroup> = new Map()
+	// Serializes index writes and the completion notification per group
+	private groupMutexes: Map<string, Mutex> = new Map()
+	private groupNotifyRetries: Map<string, number> = new Map()
 
-		return delegation
+	constructor(
+		client: OpencodeClient,
+		baseDir: string,
+		log: Logger,
+		options: DelegationManagerOptions = {},
+	) {
+		this.client = client
+		this.baseDir = baseDir
+		this.log = log
+		this.maxRunTimeMs = options.maxRunTimeMs ?? DEFAULT_MAX_RUN_TIME_MS
+		this.readPollIntervalMs = options.readPollIntervalMs ?? READ_POLL_INTERVAL_MS
+		this.terminalWaitGraceMs = options.terminalWaitGraceMs ?? TERMINAL_WAIT_GRACE_MS
+		this.allCompleteQuietPeriodMs = options.allCompleteQuietPeriodMs ?? ALL_COMPLETE_QUIET_PERIOD_MS
+		this.maxConcurrentPerSession =
+			options.maxConcurrentPerSession ?? DEFAULT_MAX_CONCURRENT_PER_SESSION
+		this.maxConcurrentPerProject =
+			options.maxConcurrentPerProject ?? DEFAULT_MAX_CONCURRENT_PER_PROJECT
+		this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy }
+		this.dependencyFailurePolicy = options.dependencyFailurePolicy ?? "fail"
+		this.stallTimeoutMs = options.stallTimeoutMs ?? DEFAULT_STALL_TIMEOUT_MS
+		this.stallAction = options.stallAction ?? "notify"
+		this.retentionPolicy = { ...DEFAULT_RETENTION_POLICY, ...options.retentionPolicy }
+		const redactionPolicy = { ...DEFAULT_REDACTION_POLICY, ...options.redactionPolicy }
+		this.redactionPolicy = {
+			...redactionPolicy,
+			// replace() needs the global flag to catch every occurrence
+			patterns: redactionPolicy.patterns.map((pattern) =>
+				pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+			),
+		}
+		this.persistTranscripts = options.persistTranscripts ?? true
+		this.structuredOutputMaxRepairs =
+			options.structuredOutputMaxRepairs ?? DEFAULT_STRUCTURED_OUTPUT_MAX_REPAIRS
+		this.projectDirectory = options.projectDirectory
+		this.debug = options.debug ?? true
+		this.childTools = Object.fromEntries(
+			Object.entries({ ...DEFAULT_DISABLED_TOOLS, ...options.disabledTools })
+				.filter(([, disabled]) => disabled)
+				.map(([name]) => [name, false]),
+		)
+		this.idGenerator = options.idGenerator ?? generateReadableId
+		this.metadataGenerator = options.metadataGenerator ?? generateMetadata
+		this.summaryGenerator = options.summaryGenerator ?? generateSummary
 	}
 
 	/**
-	 * Handle delegation timeout
+	 * Resolves the root session ID by walking up the parent chain.
 	 */
-	private async handleTimeout(delegationId: string): Promise<void> {
-		const delegation = this.delegations.get(delegationId)
-		if (!delegation || isTerminalStatus(delegation.status)) return
+	async getRootSessionID(sessionID: string): Promise<string> {
+		let currentID = sessionID
+		// Prevent infinite loops with max depth
+		for (let depth = 0; depth < 10; depth++) {
+			try {
+				const session = await this.client.session.get({
+					path: { id: currentID },
+				})
 
-		await this.debugLog(`handleTimeout for delegation ${delegation.id}`)
+				if (!session.data?.parentID) {
+					return currentID
+				}
 
-		// Try to cancel the session
-		try {
-			await this.client.session.delete({
-				path: { id: delegation.sessionID },
-			})
-		} catch {
-			// Ignore
+				currentID = session.data.parentID
+			} catch {
+				// If we can't fetch the session, assume current is root or best effort
+				return currentID
+			}
 		}
-
-		await this.finalizeDelegation(
-			delegation.id,
-			"timeout",
-			`Delegation timed out after ${this.maxRunTimeMs / 1000}s`,
-		)
+		return currentID
 	}
 
 	/**
-	 * Handle session.idle event - called when a session becomes idle
+	 * Get the delegations directory for a session scope (root session)
 	 */
-	async handleSessionIdle(sessionID: string): Promise<void> {
-		const delegation = this.findBySession(sessionID)
-		if (!delegation || isTerminalStatus(delegation.status)) return
-
-		await this.debugLog(`handleSessionIdle for delegation ${delegation.id}`)
-		await this.finalizeDelegation(delegation.id, "complete")
+	private async getDelegationsDir(sessionID: string): Promise<string> {
+		const rootID = await this.getRootSessionID(sessionID)
+		return path.join(this.baseDir, rootID)
 	}
 
 	/**
-	 * Get the result from a delegation's session
+	 * Ensure the delegations directory exists
 	 */
-	private async getResult(delegation: DelegationRecord): Promise<string> {
-		try {
-			const messages = await this.client.session.messages({
-				path: { id: delegation.sessionID },
-			})
-
-			const messageData = messages.data as SessionMessageItem[] | undefined
+	private async ensureDelegationsDir(sessionID: string): Promise<string> {
+		const dir = await this.getDelegationsDir(sessionID)
+		await fs.mkdir(dir, { recursive: true })
+		return dir
+	}
 
-			if (!messageData || messageData.length === 0) {
-				await this.debugLog(`getResult: No messages found for session ${delegation.sessionID}`)
-				return `Delegation "${delegation.description}" completed but produced no output.`
-			}
+	private createTerminalWaiter(id: string): void {
+		if (this.terminalWaiters.has(id)) return
 
-			await this.debugLog(
-				`getResult: Found ${messageData.length} messages. Roles: ${messageData.map((m) => m.info.role).join(", ")}`,
-			)
+		let resolve: (() => void) | undefined
+		const promise = new Promise<void>((innerResolve) => {
+			resolve = innerResolve
+		})
 
-			// Find the last message from the assistant/model
-			const isAssistantMessage = (m: SessionMessageItem): m is AssistantSessionMessageItem =>
-				m.info.role === "assistant"
+		if (!resolve) {
+			throw new Error(`Failed to initialize terminal waiter for delegation ${id}`)
+		}
 
-			const assistantMessages = messageData.filter(isAssistantMessage)
+		this.terminalWaiters.set(id, { promise, resolve })
+	}
 
-			if (assistantMessages.length === 0) {
-				await this.debugLog(
-					`getResult: No assistant messages found in ${JSON.stringify(messageData.map((m) => ({ role: m.info.role, keys: Object.keys(m) })))}`,
-				)
-				return `Delegation "${delegation.description}" completed but produced no assistant response.`
-			}
+	private resolveTerminalWaiter(id: string): void {
+		const waiter = this.terminalWaiters.get(id)
+		if (!waiter) return
+		waiter.resolve()
+	}
 
-			const lastMessage = assistantMessages[assistantMessages.length - 1]
+	private clearTimeoutTimer(id: string): void {
+		const timer = this.timeoutTimers.get(id)
+		if (!timer) return
+		clearTimeout(timer)
+		this.timeoutTimers.delete(id)
+	}
 
-			// Extract text parts from the message
-			const isTextPart = (p: Part): p is TextPart => p.type === "text"
-			const textParts = lastMessage.parts.filter(isTextPart)
+	private scheduleTimeout(id: string): void {
+		this.clearTimeoutTimer(id)
+		const delegation = this.delegations.get(id)
+		if (!delegation) return
 
-			if (textParts.length === 0) {
-				await this.debugLog(
-					`getResult: No text parts found in message: ${JSON.stringify(lastMessage)}`,
-				)
-				return `Delegation "${delegation.description}" completed but produced no text content.`
-			}
+		const remainingMs = Math.max(delegation.timeoutAt.getTime() - Date.now(), 0)
+		// The grace period can push a timeout near the cap past the setTimeout limit
+		const delayMs = Math.min(remainingMs + 5_000, MAX_TIMER_DELAY_MS)
+		const timer = setTimeout(() => {
+			void this.handleTimeout(id)
+		}, delayMs)
+		this.timeoutTimers.set(id, timer)
+	}
 
-			return textParts.map((p) => p.text).join("\n")
-		} catch (error) {
-			await this.debugLog(
-				`getResult error: ${error instanceof Error ? error.message : "Unknown error"}`,
-			)
-			return `Delegation "${delegation.description}" completed but result could not be retrieved: ${
-				error instanceof Error ? error.message : "Unknown error"
-			}`
-		}
+	private clearStallTimer(id: string): void {
+		const timer = this.stallTimers.get(id)
+		if (!timer) return
+		clearTimeout(timer)
+		this.stallTimers.delete(id)
 	}
 
 	/**
-	 * Persist delegation output to storage
+	 * Arm the stall watchdog for the moment the current heartbeat goes stale.
+	 * Heartbeats do not re-arm it; the check itself re-arms while activity continues.
 	 */
-	private async persistOutput(delegation: DelegationRecord, content: string): Promise<void> {
-		try {
-			// Use title/description if available (generated by small model), otherwise fallback
-			const title = delegation.title || delegation.id
-			const description = delegation.description || "(No description generated)"
-
-			const header = `# ${title}
-
-${description}
-
-**ID:** ${delegation.id}
-**Agent:** ${delegation.agent}
-**Status:** ${delegation.status}
-**Session:** ${delegation.sessionID}
-**Started:** ${(delegation.startedAt || delegation.createdAt).toISOString()}
-**Completed:** ${delegation.completedAt?.toISOString() || "N/A"}
-
----
+	private scheduleStallCheck(id: string): void {
+		this.clearStallTimer(id)
+		const delegation = this.delegations.get(id)
+		if (!delegation || this.stallTimeoutMs <= 0) return
 
-`
-			await fs.writeFile(delegation.artifact.filePath, header + content, "utf8")
+		const idleMs = Date.now() - delegation.progress.lastHeartbeatAt.getTime()
+		const timer = setTimeout(
+			() => {
+				void this.handleStallCheck(id)
+			},
+			Math.max(this.stallTimeoutMs - idleMs, 0),
+		)
+		this.stallTimers.set(id, timer)
+	}
 
-			const stats = await fs.stat(delegation.artifact.filePath)
-			this.updateDelegation(delegation.id, (record, now) => {
-				record.artifact.persistedAt = now
-				record.artifact.byteLength = stats.size
-				record.artifact.persistError = undefined
-			})
+	private updateDelegation(
+		id: string,
+		mutate: (delegation: DelegationRecord, now: Date) => void,
+	): DelegationRecord | undefined {
+		const delegation = this.delegations.get(id)
+		if (!delegation) return undefined
 
-			await this.debugLog(`Persisted output to ${delegation.artifact.filePath}`)
-		} catch (error) {
-			this.updateDelegation(delegation.id, (record) => {
-				record.artifact.persistError =
-					error instanceof Error ? error.message : "Unknown persistence error"
-			})
-			await this.debugLog(
-				`Failed to persist output: ${error instanceof Error ? error.message : "Unknown error"}`,
-			)
-		}
+		const now = new Date()
+		mutate(delegation, now)
+		delegation.updatedAt = now
+		return delegation
 	}
 
-	/**
-	 * Read a delegation's output by ID. Blocks if the delegation is still running.
-	 */
-	async readOutput(sessionID: string, id: string): Promise<string> {
-		const normalizedId = normalizeId(id)
-		if (!normalizedId) {
-			throw new Error("Delegation ID is required")
-		}
-
-		const rootSessionID = await this.getRootSessionID(sessionID)
-		let delegation = this.delegations.get(normalizedId)
-		if (delegation && !this.isVisibleToSession(delegation, rootSessionID)) {
-			delegation = undefined
+	private registerDelegation(input: {
+		id: string
+		rootSessionID: string
+		sessionID: string
+		parentSessionID: string
+		parentMessageID: string
+		parentAgent: string
+		prompt: string
+		agent: string
+		artifactPath: string
+		maxRunTimeMs: number
+		priority: number
+		groupID?: string
+		dependsOn: string[]
+		dependencyFailurePolicy: DependencyFailurePolicy
+		worktree?: DelegationWorktree
+		model?: DelegationModel
+		outputSchema?: JsonSchema
+	}): DelegationRecord {
+		if (!this.pendingByParent.has(input.parentSessionID)) {
+			this.pendingByParent.set(input.parentSessionID, new Set())
+			this.resetParentAllCompleteNotificationCycle(input.parentSessionID)
 		}
 
-		const fallbackFilePath = path.join(
-			await this.getDelegationsDir(sessionID),
-			`${normalizedId}.md`,
-		)
-
-		const immediateArtifactPath = delegation?.artifact.filePath || fallbackFilePath
-		const immediateRead = await this.readPersistedArtifact(immediateArtifactPath)
-		if (immediateRead !== null) {
-			if (delegation) this.markRetrieved(delegation.id, sessionID)
-			return immediateRead
-		}
+		const parentNotificationState = this.getParentNotificationState(input.parentSessionID)
+		const notificationCycle = parentNotificationState.allCompleteCycle
+		const notificationCycleToken = parentNotificationState.allCompleteCycleToken
 
-		if (!delegation) {
-			throw new Error(
-				`Delegation "${normalizedId}" not found.\n\nUse delegation_list() to see available delegations.`,
-			)
+		const now = new Date()
+		const delegation: DelegationRecord = {
+			id: input.id,
+			rootSessionID: input.rootSessionID,
+			sessionID: input.sessionID,
+			parentSessionID: input.parentSessionID,
+			parentMessageID: input.parentMessageID,
+			parentAgent: input.parentAgent,
+			prompt: input.prompt,
+			agent: input.agent,
+			notificationCycle,
+			notificationCycleToken,
+			status: "registered",
+			priority: input.priority,
+			createdAt: now,
+			updatedAt: now,
+			maxRunTimeMs: input.maxRunTimeMs,
+			timeoutAt: new Date(now.getTime() + input.maxRunTimeMs),
+			progress: {
+				toolCalls: 0,
+				toolCallsByName: {},
+				currentStep: 0,
+				lastUpdateAt: now,
+				lastHeartbeatAt: now,
+			},
+			attempts: [],
+			notification: {
+				terminalNotificationCount: 0,
+			},
+			retrieval: {
+				retrievalCount: 0,
+			},
+			artifact: {
+				filePath: input.artifactPath,
+			},
+			dependsOn: input.dependsOn,
+			dependencyFailurePolicy: input.dependencyFailurePolicy,
+			turns: [],
+			groupID: input.groupID,
+			worktree: input.worktree,
+			model: input.model,
+			outputSchema: input.outputSchema,
 		}
 
-		if (isActiveStatus(delegation.status)) {
-			const remainingMs = Math.max(
-				delegation.timeoutAt.getTime() - Date.now() + this.terminalWaitGraceMs,
-				this.readPollIntervalMs,
-			)
+		this.delegations.set(delegation.id, delegation)
+		this.delegationsBySession.set(delegation.sessionID, delegation.id)
+		this.createTerminalWaiter(delegation.id)
+		this.pendingByParent.get(delegation.parentSessionID)?.add(delegation.id)
 
-			await this.debugLog(
-				`readOutput: waiting up to ${remainingMs}ms for delegation ${delegation.id} to reach terminal state`,
-			)
+		return delegation
+	}
 
-			const waitResult = await this.waitForTerminal(delegation.id, remainingMs)
-			if (waitResult === "timeout" && isActiveStatus(delegation.status)) {
-				await this.handleTimeout(delegation.id)
+	private markWaiting(id: string): DelegationRecord | undefined {
+		return this.updateDelegation(id, (delegation) => {
+			if (delegation.status !== "registered") return
+			delegation.status = "waiting"
+		})
+	}
+
+	private markQueued(id: string): DelegationRecord | undefined {
+		return this.updateDelegation(id, (delegation, now) => {
+			if (delegation.status !== "registered" && delegation.status !== "waiting") return
+			delegation.status = "queued"
+			delegation.queuedAt = now
+		})
+	}
+
+	private markStarted(id: string): DelegationRecord | undefined {
+		return this.updateDelegation(id, (delegation, now) => {
+			if (isTerminalStatus(delegation.status)) return
+			delegation.status = "running"
+			delegation.startedAt = now
+			// The run-time budget starts when execution starts, not while queued
+			delegation.timeoutAt = new Date(now.getTime() + delegation.maxRunTimeMs)
+			delegation.progress.lastUpdateAt = now
+			delegation.progress.lastHeartbeatAt = now
+		})
+	}
+
+	private markProgress(id: string, messageText?: string): DelegationRecord | undefined {
+		return this.updateDelegation(id, (delegation, now) => {
+			if (isTerminalStatus(delegation.status)) return
+			if (delegation.status === "registered") {
+				delegation.status = "running"
+				delegation.startedAt = delegation.startedAt ?? now
 			}
-		}
 
-		if (isTerminalStatus(delegation.status)) {
-			const delayedPersisted = await this.waitForPersistedArtifact(
-				delegation.artifact.filePath,
-				Math.max(this.readPollIntervalMs * 8, 500),
-			)
-			if (delayedPersisted !== null) {
-				this.markRetrieved(delegation.id, sessionID)
-				return delayedPersisted
+			delegation.progress.lastUpdateAt = now
+			delegation.progress.lastHeartbeatAt = now
+			this.clearStalled(delegation)
+
+			if (messageText) {
+				// Progress is written to the state file while the delegation runs
+				delegation.progress.lastMessage = this.redact(messageText).text
+				delegation.progress.lastMessageAt = now
 			}
+		})
+	}
+
+	private markTerminal(
+		id: string,
+		status: DelegationTerminalStatus,
+		error?: string,
+	): { transitioned: boolean; delegation?: DelegationRecord } {
+		const delegation = this.delegations.get(id)
+		if (!delegation) return { transitioned: false }
+
+		if (isTerminalStatus(delegation.status)) {
+			return { transitioned: false, delegation }
 		}
 
-		const persisted = await this.readPersistedArtifact(delegation.artifact.filePath)
-		if (persisted !== null) {
-			this.markRetrieved(delegation.id, sessionID)
-			return persisted
+		const now = new Date()
+		delegation.status = status
+		delegation.completedAt = now
+		delegation.updatedAt = now
+		if (error) {
+			delegation.error = error
 		}
 
-		if (isTerminalStatus(delegation.status)) {
-			return this.buildDeterministicTerminalReadResponse(delegation)
+		const pending = this.pendingByParent.get(delegation.parentSessionID)
+		if (pending) {
+			pending.delete(delegation.id)
+			if (pending.size === 0) {
+				this.pendingByParent.delete(delegation.parentSessionID)
+			}
 		}
 
-		return `Delegation "${delegation.id}" is still running. You will receive a <task-notification> when it reaches a terminal state.`
+		this.closeCurrentAttempt(delegation, now, error)
+		this.clearTimeoutTimer(id)
+		this.clearRetryTimer(id)
+		this.clearStallTimer(id)
+		this.seenProgressParts.delete(id)
+		this.resolveTerminalWaiter(id)
+		this.drainQueue()
+
+		return { transitioned: true, delegation }
 	}
 
-	/**
-	 * List all delegations for a session
-	 */
-	async listDelegations(sessionID: string): Promise<DelegationListItem[]> {
-		const rootSessionID = await this.getRootSessionID(sessionID)
-		const results: DelegationListItem[] = []
+	private markNotified(id: string): DelegationRecord | undefined {
+		return this.updateDelegation(id, (delegation, now) => {
+			delegation.notification.terminalNotifiedAt = now
+			delegation.notification.terminalNotificationCount += 1
+		})
+	}
 
-		// Add in-memory delegations in this root session scope
-		for (const delegation of this.delegations.values()) {
-			if (!this.isVisibleToSession(delegation, rootSessionID)) continue
+	private getParentNotificationState(parentSessionID: string): ParentNotificationState {
+		const existing = this.parentNotificationState.get(parentSessionID)
+		if (existing) return existing
 
-			results.push({
-				id: delegation.id,
-				status: delegation.status,
-				title: delegation.title || delegation.id,
-				description:
-					delegation.description ||
-					(delegation.status === "running" || delegation.status === "registered"
-						? "(running)"
-						: "(no description)"),
-				agent: delegation.agent,
-				unread: this.hasUnreadCompletion(delegation),
-			})
+		const initialized: ParentNotificationState = {
+			allCompleteNotificationCount: 0,
+			allCompleteCycle: 0,
+			allCompleteCycleToken: this.buildAllCompleteCycleToken(parentSessionID, 0),
 		}
+		this.parentNotificationState.set(parentSessionID, initialized)
+		return initialized
+	}
 
-		// Check filesystem for persisted delegations
-		try {
-			const dir = await this.getDelegationsDir(rootSessionID)
-			const files = await fs.readdir(dir)
+	private buildAllCompleteCycleToken(parentSessionID: string, cycle: number): string {
+		return `${parentSessionID}:${cycle}`
+	}
 
-			for (const file of files) {
-				if (file.endsWith(".md")) {
-					const id = file.replace(".md", "")
-					// Deduplicate: prioritize in-memory status
-					if (!results.find((r) => r.id === id)) {
-						// Try to read title, agent, description from file
-						let title = "(loaded from storage)"
-						let description = ""
-						let agent: string | undefined
-						let status: DelegationStatus = "complete"
-						try {
-							const filePath = path.join(dir, file)
-							const content = await fs.readFile(filePath, "utf8")
-							const titleMatch = content.match(/^# (.+)$/m)
-							if (titleMatch) title = titleMatch[1]
-							const agentMatch = content.match(/^\*\*Agent:\*\* (.+)$/m)
-							if (agentMatch) agent = agentMatch[1]
-							const statusMatch = content.match(/^\*\*Status:\*\* (.+)$/m)
-							status = parsePersistedStatus(statusMatch?.[1]?.trim())
-							// Get first paragraph after title as description
-							const lines = content.split("\n")
-							if (lines.length > 2 && lines[2]) {
-								description = lines[2].slice(0, 150)
-							}
-						} catch {
-							// Ignore read errors
-						}
-						results.push({
-							id,
-							status,
-							title,
-							description,
-							agent,
-							unread: false,
-						})
-					}
-				}
-			}
-		} catch {
-			// Directory may not exist yet
-		}
+	private resetParentAllCompleteNotificationCycle(parentSessionID: string): void {
+		const state = this.getParentNotificationState(parentSessionID)
+		this.cancelScheduledAllComplete(state)
+		state.allCompleteCycle += 1
+		state.allCompleteCycleToken = this.buildAllCompleteCycleToken(
+			parentSessionID,
+			state.allCompleteCycle,
+		)
+		state.allCompleteNotifiedAt = undefined
+		state.allCompleteNotifiedCycle = undefined
+		state.allCompleteNotifiedCycleToken = undefined
+	}
 
-		results.sort((a, b) => a.id.localeCompare(b.id))
-		return results
+	private cancelScheduledAllComplete(state: ParentNotificationState): void {
+		if (state.allCompleteScheduledTimer) {
+			clearTimeout(state.allCompleteScheduledTimer)
+		}
+		state.allCompleteScheduledTimer = undefined
+		state.allCompleteScheduledCycle = undefined
+		state.allCompleteScheduledCycleToken = undefined
 	}
 
-	/**
-	 * Delete a delegation by id (cancels if running, removes from storage)
-	 * Used internally for cleanup (timeout, etc.)
-	 */
-	async deleteDelegation(sessionID: string, id: string): Promise<boolean> {
-		const normalizedId = normalizeId(id)
-		const delegation = this.delegations.get(normalizedId)
+	private areCycleTerminalNotificationsComplete(
+		parentSessionID: string,
+		cycleToken: string,
+	): boolean {
+		let cycleDelegationCount = 0
 
-		if (delegation) {
-			if (isActiveStatus(delegation.status)) {
-				try {
-					await this.client.session.delete({
-						path: { id: delegation.sessionID },
-					})
-				} catch {
-					// Session may already be deleted
-				}
-				this.markTerminal(delegation.id, "cancelled", "Delegation deleted by cleanup")
-			}
+		for (const delegation of this.delegations.values()) {
+			if (delegation.parentSessionID !== parentSessionID) continue
+			if (delegation.notificationCycleToken !== cycleToken) continue
 
-			this.clearTimeoutTimer(delegation.id)
-			this.terminalWaiters.delete(delegation.id)
-			this.delegationsBySession.delete(delegation.sessionID)
-			this.delegations.delete(delegation.id)
+			cycleDelegationCount += 1
+			if (!delegation.notification.terminalNotifiedAt) {
+				return false
+			}
 		}
 
-		// Remove from filesystem
-		try {
-			const dir = await this.getDelegationsDir(sessionID)
-			const filePath = path.join(dir, `${normalizedId}.md`)
-			await fs.unlink(filePath)
-			return true
-		} catch {
-			return false
-		}
+		return cycleDelegationCount > 0
 	}
 
-	/**
-	 * Find a delegation by its session ID
-	 */
-	findBySession(sessionID: string): DelegationRecord | undefined {
-		return this.getDelegationBySession(sessionID)
-	}
+	private scheduleAllCompleteForParent(parentSessionID: string, parentAgent: string): void {
+		const state = this.getParentNotificationState(parentSessionID)
+		const cycle = state.allCompleteCycle
+		const cycleToken = state.allCompleteCycleToken
+		if (!this.areCycleTerminalNotificationsComplete(parentSessionID, cycleToken)) return
 
-	/**
-	 * Handle message events for progress tracking
-	 */
-	handleMessageEvent(sessionID: string, messageText?: string): void {
-		const delegation = this.findBySession(sessionID)
-		if (!delegation) return
-		this.markProgress(delegation.id, messageText)
+		if (state.allCompleteNotifiedCycleToken === cycleToken) return
+		if (state.allCompleteScheduledCycleToken === cycleToken) return
+
+		this.cancelScheduledAllComplete(state)
+
+		state.allCompleteScheduledCycle = cycle
+		state.allCompleteScheduledCycleToken = cycleToken
+		state.allCompleteScheduledTimer = setTimeout(() => {
+			void this.dispatchScheduledAllComplete(parentSessionID, parentAgent, cycle, cycleToken)
+		}, this.allCompleteQuietPeriodMs)
+	}
+
+	private async dispatchScheduledAllComplete(
+		parentSessionID: string,
+		parentAgent: string,
+		cycle: number,
+		cycleToken: string,
+	): Promise<void> {
+		const state = this.getParentNotificationState(parentSessionID)
+
+		if (state.allCompleteScheduledCycleToken !== cycleToken) return
+
+		this.cancelScheduledAllComplete(state)
+
+		if (state.allCompleteCycleToken !== cycleToken) return
+		if (!this.areCycleTerminalNotificationsComplete(parentSessionID, cycleToken)) return
+		if (state.allCompleteNotifiedCycleToken === cycleToken) return
+
+		try {
+			await this.client.session.prompt({
+				path: { id: parentSessionID },
+				body: {
+					noReply: false,
+					agent: parentAgent,
+					parts: [
+						{
+							type: "text",
+							text: this.buildAllCompleteNotification(parentSessionID, cycle, cycleToken),
+						},
+					],
+				},
+			})
+		} catch (error) {
+			await this.debugLog(
+				`all-complete notification failed for ${parentSessionID} cycle=${cycleToken}: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`,
+			)
+			return
+		}
+
+		if (state.allCompleteCycleToken !== cycleToken) return
+		if (!this.areCycleTerminalNotificationsComplete(parentSessionID, cycleToken)) return
+
+		state.allCompleteNotifiedAt = new Date()
+		state.allCompleteNotificationCount += 1
+		state.allCompleteNotifiedCycle = cycle
+		state.allCompleteNotifiedCycleToken = cycleToken
+	}
+
+	private markRetrieved(id: string, readerSessionID: string): DelegationRecord | undefined {
+		const delegation = this.updateDelegation(id, (record, now) => {
+			record.retrieval.retrievedAt = now
+			record.retrieval.retrievalCount += 1
+			record.retrieval.lastReaderSessionID = readerSessionID
+		})
+		if (delegation?.artifact.persistedAt) {
+			void this.writeArtifactMetadata(delegation)
+		}
+		return delegation
+	}
+
+	private hasUnreadCompletion(delegation: DelegationRecord): boolean {
+		if (!isTerminalStatus(delegation.status)) return false
+		if (!delegation.notification.terminalNotifiedAt) return false
+		if (!delegation.completedAt) return false
+
+		if (!delegation.retrieval.retrievedAt) return true
+		return delegation.retrieval.retrievedAt.getTime() < delegation.completedAt.getTime()
+	}
+
+	/**
+	 * Wait for a delegation to reach a terminal state. Aborting the signal stops the wait
+	 * early (reported as "timeout") and releases its timer.
+	 */
+	private async waitForTerminal(
+		id: string,
+		timeoutMs: number,
+		signal?: AbortSignal,
+	): Promise<"terminal" | "timeout"> {
+		const delegation = this.delegations.get(id)
+		if (!delegation) return "timeout"
+		if (isTerminalStatus(delegation.status)) return "terminal"
+
+		const waiter = this.terminalWaiters.get(id)
+		if (!waiter) return "timeout"
+
+		let timer: ReturnType<typeof setTimeout> | undefined
+		try {
+			const result = await Promise.race<"terminal" | "timeout">([
+				waiter.promise.then(() => "terminal"),
+				new Promise<"timeout">((resolve) => {
+					// Callers add grace periods on top of delegation timeouts
+					timer = setTimeout(() => resolve("timeout"), Math.min(timeoutMs, MAX_TIMER_DELAY_MS))
+					signal?.addEventListener("abort", () => resolve("timeout"), { once: true })
+				}),
+			])
+			return result
+		} finally {
+			if (timer) clearTimeout(timer)
+		}
+	}
+
+	private async generateUniqueDelegationId(artifactDir: string): Promise<string> {
+		for (let attempt = 0; attempt < 20; attempt++) {
+			const candidate = this.idGenerator()
+			if (this.delegations.has(candidate) || this.groups.has(candidate)) continue
+
+			const candidatePath = path.join(artifactDir, `${candidate}.md`)
+			try {
+				await fs.access(candidatePath)
+			} catch {
+				return candidate
+			}
+		}
+
+		throw new Error("Failed to generate unique delegation ID after 20 attempts")
+	}
+
+	private getDelegationBySession(sessionID: string): DelegationRecord | undefined {
+		const delegationId = this.delegationsBySession.get(sessionID)
+		if (!delegationId) return undefined
+		return this.delegations.get(delegationId)
+	}
+
+	private isVisibleToSession(delegation: DelegationRecord, rootSessionID: string): boolean {
+		return delegation.rootSessionID === rootSessionID
+	}
+
+	private buildTerminalNotification(
+		delegation: DelegationRecord,
+		remainingCount: number,
+		pendingCounts: PendingCounts,
+	): string {
+		const lines = [
+			"<task-notification>",
+			`<task-id>${delegation.id}</task-id>`,
+			`<status>${delegation.status}</status>`,
+			delegation.turns.length > 0 ? `<turn>${getCurrentTurn(delegation)}</turn>` : "",
+			`<summary>Background agent ${delegation.status}: ${delegation.title || delegation.id}</summary>`,
+			delegation.title ? `<title>${delegation.title}</title>` : "",
+			delegation.description ? `<description>${delegation.description}</description>` : "",
+			delegation.error ? `<error>${delegation.error}</error>` : "",
+			delegation.usage ? `<usage>${formatUsage(delegation.usage)}</usage>` : "",
+			delegation.structuredOutput?.valid
+				? `<structured-output>${delegation.structuredOutput.path}. Read with delegation_read("${delegation.id}", view: "json").</structured-output>`
+				: delegation.structuredOutput
+					? `<structured-output>invalid: ${(delegation.structuredOutput.errors ?? []).join("; ")}</structured-output>`
+					: "",
+			delegation.worktree?.patchPath
+				? `<patch>${delegation.worktree.patchPath} (${delegation.worktree.filesChanged ?? 0} files changed). Review with delegation_read("${delegation.id}", view: "patch"); apply with delegation_apply("${delegation.id}").</patch>`
+				: "",
+			`<artifact>${delegation.artifact.filePath}</artifact>`,
+			`<retrieval>Use delegation_read("${delegation.id}") for full output.</retrieval>`,
+			remainingCount > 0 ? `<remaining>${remainingCount}</remaining>` : "",
+			remainingCount > 0 ? `<running>${pendingCounts.running}</running>` : "",
+			pendingCounts.queued > 0 ? `<queued>${pendingCounts.queued}</queued>` : "",
+			pendingCounts.waiting > 0 ? `<waiting>${pendingCounts.waiting}</waiting>` : "",
+			"</task-notification>",
+		]
+
+		return lines.filter((line) => line.length > 0).join("\n")
+	}
+
+	private buildAllCompleteNotification(
+		parentSessionID: string,
+		cycle: number,
+		cycleToken: string,
+	): string {
+		// cycle-token is a boundary watermark.
+		// Receivers should ignore all-complete payloads whose token is older than
+		// the latest known registration cycle for this parent session.
+		return [
+			"<task-notification>",
+			"<type>all-complete</type>",
+			"<status>completed</status>",
+			"<summary>All delegations complete.</summary>",
+			`<parent-session-id>${parentSessionID}</parent-session-id>`,
+			`<cycle>${cycle}</cycle>`,
+			`<cycle-token>${cycleToken}</cycle-token>`,
+			"</task-notification>",
+		].join("\n")
+	}
+
+	private buildDeterministicTerminalReadResponse(delegation: DelegationRecord): string {
+		const lines = [
+			`Delegation ID: ${delegation.id}`,
+			`Status: ${delegation.status}`,
+			`Agent: ${delegation.agent}`,
+			`Started: ${delegation.startedAt?.toISOString() || delegation.createdAt.toISOString()}`,
+			`Completed: ${delegation.completedAt?.toISOString() || "N/A"}`,
+			`Artifact: ${delegation.artifact.filePath}`,
+		]
+
+		if (delegation.title) lines.push(`Title: ${delegation.title}`)
+		if (delegation.description) lines.push(`Description: ${delegation.description}`)
+		if (delegation.error) lines.push(`Error: ${delegation.error}`)
+
+		lines.push(`\nUse delegation_read("${delegation.id}") again after persistence completes.`)
+		return lines.join("\n")
+	}
+
+	private async readPersistedArtifact(filePath: string): Promise<string | null> {
+		try {
+			return await fs.readFile(filePath, "utf8")
+		} catch {
+			return null
+		}
+	}
+
+	private async waitForPersistedArtifact(
+		filePath: string,
+		maxWaitMs: number,
+	): Promise<string | null> {
+		const start = Date.now()
+		while (Date.now() - start < maxWaitMs) {
+			const content = await this.readPersistedArtifact(filePath)
+			if (content !== null) return content
+			await new Promise((resolve) => setTimeout(resolve, this.readPollIntervalMs))
+		}
+
+		return null
+	}
+
+	private async resolveDelegationResult(delegation: DelegationRecord): Promise<string> {
+		if (delegation.status === "error") {
+			return `Error: ${delegation.error || "Delegation failed."}`
+		}
+
+		if (delegation.status === "cancelled") {
+			const partial = await this.getResult(delegation)
+			return `${partial}\n\n[CANCELLED]`
+		}
+
+		if (delegation.status === "timeout") {
+			const partial = await this.getResult(delegation)
+			return `${partial}\n\n${delegation.progress.stalledAt ? "[STALLED - ABORTED]" : "[TIMEOUT REACHED]"}`
+		}
+
+		return await this.getResult(delegation)
+	}
+
+	private async finalizeDelegation(
+		delegationId: string,
+		status: DelegationTerminalStatus,
+		error?: string,
+	): Promise<void> {
+		const { transitioned, delegation } = this.markTerminal(delegationId, status, error)
+		if (!transitioned || !delegation) return
+
+		await this.debugLog(`finalizeDelegation(${delegation.id}, ${status}) started`)
+
+		// A continuation turn adds to the session's totals; re-read them this time round
+		if (delegation.usageBySession) delete delegation.usageBySession[delegation.sessionID]
+
+		const rawResult = await this.resolveDelegationResult(delegation)
+		// The JSON answer was validated unredacted; like worktree patches it is written verbatim,
+		// since a redaction marker could break the schema it was checked against
+		if (delegation.outputSchema && delegation.turns.length === 0 && status === "complete") {
+			await this.persistStructuredOutput(delegation, delegation.outputSchema, rawResult)
+		}
+
+		// Scrub secrets before anything else is derived from or written for the result
+		const { text: resolvedResult, count: resultRedactions } = this.redact(rawResult)
+		delegation.result = resolvedResult
+		const errorRedaction = delegation.error ? this.redact(delegation.error) : undefined
+		if (errorRedaction) delegation.error = errorRedaction.text
+		const redactions = resultRedactions + (errorRedaction?.count ?? 0)
+		if (redactions > 0) {
+			delegation.redactions = (delegation.redactions ?? 0) + redactions
+			this.log.warn(`Redacted ${redactions} secret(s) from delegation ${delegation.id}`)
+		}
+		await this.collectUsage(delegation)
+		if (delegation.worktree) await this.finalizeWorktree(delegation, delegation.worktree)
+
+		// Continuation turns keep the title/description of the original research
+		const keepMetadata = delegation.turns.length > 0 && !!delegation.title
+		if (resolvedResult.trim().length > 0 && !keepMetadata) {
+			const metadata = await this.metadataGenerator(
+				this.client,
+				resolvedResult,
+				delegation.sessionID,
+				(msg) => this.debugLog(msg),
+			)
+			delegation.title = metadata.title
+			delegation.description = metadata.description
+			delegation.tags = metadata.tags
+			delegation.entities = metadata.entities
+		}
+
+		await this.persistOutput(delegation, resolvedResult)
+		if (this.persistTranscripts) await this.persistTranscript(delegation)
+		this.releaseDependents(delegation.id)
+		await this.notifyParent(delegation.id)
+		if (delegation.groupID) {
+			await this.handleGroupMemberTerminal(delegation.groupID)
+		}
+		await this.persistState()
+	}
+
+	private async notifyParent(delegationId: string): Promise<void> {
+		try {
+			const delegation = this.delegations.get(delegationId)
+			if (!delegation) return
+			if (!isTerminalStatus(delegation.status)) return
+			if (delegation.notification.terminalNotifiedAt) {
+				await this.debugLog(`notifyParent skipped for ${delegation.id}; already notified`)
+				return
+			}
+
+			const remainingCount = this.getPendingCount(delegation.parentSessionID)
+			const terminalNotification = this.buildTerminalNotification(
+				delegation,
+				remainingCount,
+				this.getPendingCounts(delegation.parentSessionID),
+			)
+
+			await this.client.session.prompt({
+				path: { id: delegation.parentSessionID },
+				body: {
+					noReply: true,
+					agent: delegation.parentAgent,
+					parts: [{ type: "text", text: terminalNotification }],
+				},
+			})
+
+			this.markNotified(delegation.id)
+			this.scheduleAllCompleteForParent(delegation.parentSessionID, delegation.parentAgent)
+
+			await this.debugLog(
+				`notifyParent sent for ${delegation.id} (remaining=${remainingCount}, status=${delegation.status})`,
+			)
+		} catch (error) {
+			await this.debugLog(
+				`notifyParent failed for ${delegationId}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+		}
+	}
+
+	/**
+	 * Delegate a task to an agent
+	 */
+	async delegate(input: DelegateInput): Promise<DelegationRecord> {
+		// Validate agent exists before creating session
+		const agentsResult = await this.client.app.agents({})
+		const agents = (agentsResult.data ?? []) as {
+			name: string
+			description?: string
+			mode?: string
+		}[]
+		const validAgent = agents.find((a) => a.name === input.agent)
+
+		if (!validAgent) {
+			const available = agents
+				.filter((a) => a.mode === "subagent" || a.mode === "all" || !a.mode)
+				.map((a) => `• ${a.name}${a.description ? ` - ${a.description}` : ""}`)
+				.join("\n")
+
+			throw new Error(
+				`Agent "${input.agent}" not found.\n\nAvailable agents:\n${available || "(none)"}`,
+			)
+		}
+
+		// Check if agent is read-only (Early Exit + Fail Fast)
+		// Write-capable agents are allowed only inside an isolated worktree
+		const { isReadOnly } = await parseAgentWriteCapability(this.client, input.agent, this.log)
+		if (!isReadOnly && input.isolation !== "worktree") {
+			throw new Error(
+				`Agent "${input.agent}" is write-capable and requires the native \`task\` tool for proper undo/branching support.\n\n` +
+					`Use \`task\` instead of \`delegate\` for write-capable agents.\n\n` +
+					`Read-only sub-agents (edit/write/bash denied) use \`delegate\`.\n` +
+					`Write-capable sub-agents (any write permission) use \`task\`, ` +
+					`or \`delegate\` with isolation: "worktree" to run in a throwaway git worktree and get a patch back.`,
+			)
+		}
+
+		// Effective timeout: explicit argument > per-agent config > manager default
+		const { timeoutMs: agentTimeoutMs } = await parseAgentTimeout(
+			this.client,
+			input.agent,
+			this.log,
+		)
+		const maxRunTimeMs = input.timeoutMs ?? agentTimeoutMs ?? this.maxRunTimeMs
+		const model = await this.resolveModelOverride(input.model, input.provider)
+		const outputSchema =
+			input.outputSchema === undefined ? undefined : parseOutputSchema(input.outputSchema)
+
+		const artifactDir = await this.ensureDelegationsDir(input.parentSessionID)
+		const rootSessionID = await this.getRootSessionID(input.parentSessionID)
+		const dependsOn = Array.from(new Set((input.dependsOn ?? []).map(normalizeId).filter(Boolean)))
+		await this.assertDependenciesExist(dependsOn, rootSessionID, artifactDir)
+
+		const stableId = await this.generateUniqueDelegationId(artifactDir)
+		const artifactPath = path.join(artifactDir, `${stableId}.md`)
+
+		await this.debugLog(`delegate() called, generated stable ID: ${stableId}`)
+
+		const worktree =
+			input.isolation === "worktree" ? await this.createWorktree(stableId) : undefined
+
+		// Create isolated session for delegation
+		let sessionResult: Awaited<ReturnType<OpencodeClient["session"]["create"]>>
+		try {
+			sessionResult = await this.client.session.create({
+				body: {
+					title: `Delegation: ${stableId}`,
+					parentID: input.parentSessionID,
+				},
+				query: worktree ? { directory: getWorktreeDirectory(worktree) } : undefined,
+			})
+		} catch (error) {
+			if (worktree) await this.removeWorktree(worktree)
+			throw error
+		}
+
+		await this.debugLog(`session.create result: ${JSON.stringify(sessionResult.data)}`)
+
+		if (!sessionResult.data?.id) {
+			if (worktree) await this.removeWorktree(worktree)
+			throw new Error("Failed to create delegation session")
+		}
+
+		const delegation = this.registerDelegation({
+			id: stableId,
+			rootSessionID,
+			sessionID: sessionResult.data.id,
+			parentSessionID: input.parentSessionID,
+			parentMessageID: input.parentMessageID,
+			parentAgent: input.parentAgent,
+			prompt: input.prompt,
+			agent: input.agent,
+			artifactPath,
+			maxRunTimeMs,
+			priority: input.priority ?? 0,
+			groupID: input.groupID,
+			dependsOn,
+			dependencyFailurePolicy: input.dependencyFailurePolicy ?? this.dependencyFailurePolicy,
+			worktree,
+			model,
+			outputSchema,
+		})
+
+		await this.debugLog(`Registered delegation ${delegation.id} before execution`)
+
+		if (dependsOn.length > 0) {
+			this.markWaiting(delegation.id)
+			await this.debugLog(`Delegation ${delegation.id} waiting on ${dependsOn.join(", ")}`)
+			await this.resolveDependencies(delegation.id)
+		} else {
+			await this.admitDelegation(delegation)
+		}
+		await this.persistState()
+
+		return delegation
+	}
+
+	/**
+	 * Start a delegation now, or queue it when the concurrency limit is reached
+	 */
+	private async admitDelegation(delegation: DelegationRecord): Promise<void> {
+		if (this.hasCapacity(delegation.rootSessionID)) {
+			this.startDelegation(delegation.id)
+		} else {
+			this.markQueued(delegation.id)
+			await this.debugLog(`Delegation ${delegation.id} queued (concurrency limit reached)`)
+		}
+	}
+
+	/**
+	 * Fail fast on dependencies that are neither in memory nor persisted in this root session
+	 */
+	private async assertDependenciesExist(
+		dependsOn: string[],
+		rootSessionID: string,
+		artifactDir: string,
+	): Promise<void> {
+		const missing: string[] = []
+		for (const id of dependsOn) {
+			const delegation = this.delegations.get(id)
+			if (delegation && this.isVisibleToSession(delegation, rootSessionID)) continue
+			if ((await readArtifactMetadata(path.join(artifactDir, `${id}.md`), id)) !== null) continue
+			missing.push(id)
+		}
+
+		if (missing.length > 0) {
+			throw new Error(
+				`Unknown dependency ID(s): ${missing.join(", ")}.\n\nUse delegation_list() to see available delegations.`,
+			)
+		}
+	}
+
+	/**
+	 * Resolve a dependency's status and persisted output, from memory or storage
+	 */
+	private async getDependencyResult(
+		dependent: DelegationRecord,
+		id: string,
+	): Promise<{ id: string; status: DelegationStatus; title?: string; content: string | null }> {
+		const delegation = this.delegations.get(id)
+		if (delegation) {
+			const { persistedAt, persistError } = delegation.artifact
+			const persisted =
+				isTerminalStatus(delegation.status) && persistedAt
+					? await this.readPersistedArtifact(delegation.artifact.filePath)
+					: null
+			// The artifact write failed or the file is gone: inject the in-memory result instead
+			const content =
+				persisted ?? (persistedAt || persistError ? (delegation.result ?? null) : null)
+			return { id, status: delegation.status, title: delegation.title, content }
+		}
+
+		const artifactPath = path.join(path.dirname(dependent.artifact.filePath), `${id}.md`)
+		const metadata = await readArtifactMetadata(artifactPath, id)
+		return {
+			id,
+			// A dependency that vanished from memory and storage can never complete
+			status: metadata?.status ?? "error",
+			title: metadata?.title,
+			content: await this.readPersistedArtifact(artifactPath),
+		}
+	}
+
+	/**
+	 * Check a waiting delegation's dependencies. Once all are terminal and their persist
+	 * attempt is over, inject their results into its prompt and admit it, or fail it per policy.
+	 */
+	private async resolveDependencies(id: string): Promise<void> {
+		const delegation = this.delegations.get(id)
+		if (!delegation || delegation.status !== "waiting") return
+
+		const dependencies = await Promise.all(
+			delegation.dependsOn.map((dependencyId) =>
+				this.getDependencyResult(delegation, dependencyId),
+			),
+		)
+
+		// Terminal but still being persisted counts as pending: the artifact is what gets injected
+		const pending = dependencies.filter((dependency) => {
+			if (!isTerminalStatus(dependency.status)) return true
+			const artifact = this.delegations.get(dependency.id)?.artifact
+			return (
+				dependency.content === null && !!artifact && !artifact.persistedAt && !artifact.persistError
+			)
+		})
+		if (pending.length > 0) return
+
+		// Re-check after the async reads: a concurrent resolution may have already admitted it
+		if (delegation.status !== "waiting") return
+
+		const failed = dependencies.filter((dependency) => dependency.status !== "complete")
+		if (failed.length > 0 && delegation.dependencyFailurePolicy === "fail") {
+			await this.finalizeDelegation(
+				delegation.id,
+				"error",
+				`Dependency failed: ${failed.map((dependency) => `${dependency.id} (${dependency.status})`).join(", ")}`,
+			)
+			return
+		}
+
+		// Admit before any further await so concurrent resolutions see the status change
+		delegation.dependencyContext = formatDependencyContext(dependencies)
+		await this.admitDelegation(delegation)
+		await this.debugLog(
+			`Dependencies resolved for ${delegation.id}; injected ${dependencies.length} result(s)`,
+		)
+		await this.persistState()
+	}
+
+	/**
+	 * Re-check every waiting delegation that depends on the given one
+	 */
+	private releaseDependents(dependencyId: string): void {
+		for (const delegation of this.delegations.values()) {
+			if (delegation.status !== "waiting") continue
+			if (!delegation.dependsOn.includes(dependencyId)) continue
+			void this.resolveDependencies(delegation.id)
+		}
+	}
+
+	/**
+	 * Launch several delegations as a named group with its own completion notification
+	 */
+	async delegateBatch(input: DelegateBatchInput): Promise<{
+		group: DelegationGroup
+		members: DelegationRecord[]
+		failures: { index: number; agent: string; error: string }[]
+	}> {
+		if (input.items.length === 0) {
+			throw new Error("delegate_batch requires at least one item")
+		}
+
+		const artifactDir = await this.ensureDelegationsDir(input.parentSessionID)
+		const rootSessionID = await this.getRootSessionID(input.parentSessionID)
+		const groupId = await this.generateUniqueDelegationId(artifactDir)
+		const group: DelegationGroup = {
+			id: groupId,
+			name: input.name,
+			rootSessionID,
+			parentSessionID: input.parentSessionID,
+			parentAgent: input.parentAgent,
+			memberIds: [],
+			launched: false,
+			createdAt: new Date(),
+			artifactPath: path.join(artifactDir, `${groupId}.md`),
+		}
+		this.groups.set(group.id, group)
+
+		await this.debugLog(
+			`delegateBatch() called, group ${group.id} with ${input.items.length} item(s)`,
+		)
+
+		const members: DelegationRecord[] = []
+		const failures: { index: number; agent: string; error: string }[] = []
+		for (const [index, item] of input.items.entries()) {
+			try {
+				const member = await this.delegate({
+					parentSessionID: input.parentSessionID,
+					parentMessageID: input.parentMessageID,
+					parentAgent: input.parentAgent,
+					prompt: item.prompt,
+					agent: item.agent,
+					timeoutMs: item.timeoutMs,
+					priority: item.priority,
+					model: item.model,
+					groupID: group.id,
+				})
+				group.memberIds.push(member.id)
+				members.push(member)
+			} catch (error) {
+				failures.push({
+					index,
+					agent: item.agent,
+					error: error instanceof Error ? error.message : "Unknown error",
+				})
+			}
+		}
+
+		if (members.length === 0) {
+			this.groups.delete(group.id)
+			throw new Error(
+				`No batch items could be launched:\n\n${failures.map((f) => `• #${f.index + 1} (${f.agent}): ${f.error}`).join("\n")}`,
+			)
+		}
+
+		group.launched = true
+		// Writes the index; members may have finished while the rest of the batch was launching
+		await this.handleGroupMemberTerminal(group.id)
+		await this.persistState()
+
+		return { group, members, failures }
+	}
+
+	/**
+	 * Resolve member status from memory, falling back to persisted artifact metadata
+	 */
+	private async getGroupMembers(group: DelegationGroup): Promise<DelegationGroupMember[]> {
+		const artifactDir = path.dirname(group.artifactPath)
+		const members: DelegationGroupMember[] = []
+
+		for (const id of group.memberIds) {
+			const delegation = this.delegations.get(id)
+			if (delegation) {
+				members.push({
+					id,
+					status: delegation.status,
+					agent: delegation.agent,
+					title: delegation.title,
+					prompt: delegation.prompt,
+					artifactPath: delegation.artifact.filePath,
+				})
+				continue
+			}
+
+			const artifactPath = path.join(artifactDir, `${id}.md`)
+			const metadata = await readArtifactMetadata(artifactPath, id)
+			members.push({
+				id,
+				status: metadata?.status ?? "not_found",
+				agent: metadata?.agent,
+				title: metadata?.title,
+				prompt: metadata?.prompt,
+				artifactPath,
+			})
+		}
+
+		return members
+	}
+
+	/**
+	 * Write (or refresh) the combined index artifact linking each member's result
+	 */
+	private async persistGroupIndex(group: DelegationGroup): Promise<void> {
+		const members = await this.getGroupMembers(group)
+		const title = group.name ? `Batch: ${group.name}` : `Batch ${group.id}`
+		const statusCounts = new Map<string, number>()
+		for (const member of members) {
+			statusCounts.set(member.status, (statusCounts.get(member.status) ?? 0) + 1)
+		}
+		const summary = Array.from(statusCounts.entries())
+			.map(([status, count]) => `${count} ${status}`)
+			.join(", ")
+
+		const memberLines = members.map((member, index) => {
+			const titlePart = member.title ? ` | ${member.title}` : ""
+			const prompt = member.prompt ? this.redact(member.prompt).text : undefined
+			const promptPart = prompt
+				? `\n   Prompt: ${prompt.length > 120 ? `${prompt.slice(0, 120)}...` : prompt}`
+				: ""
+			return `${index + 1}. **${member.id}**${titlePart} (${member.agent ?? "unknown agent"}) [${member.status}]${promptPart}\n   Result: \`delegation_read("${member.id}")\` · ${member.artifactPath}`
+		})
+
+		const content = `# ${title}
+
+${members.length} delegation(s): ${summary}
+
+**Group ID:** ${group.id}
+**Created:** ${group.createdAt.toISOString()}
+**Completed:** ${group.completedAt?.toISOString() || "N/A"}
+
+---
+
+${memberLines.join("\n\n")}
+`
+
+		const metadata: DelegationArtifactMetadata = {
+			version: ARTIFACT_METADATA_VERSION,
+			kind: "group",
+			id: group.id,
+			title,
+			description: `${members.length} delegation(s): ${summary}`,
+			status: group.completedAt ? "complete" : "running",
+			rootSessionID: group.rootSessionID,
+			parentSessionID: group.parentSessionID,
+			parentAgent: group.parentAgent,
+			createdAt: group.createdAt.toISOString(),
+			completedAt: group.completedAt?.toISOString(),
+			members: group.memberIds,
+		}
+
+		try {
+			await fs.writeFile(group.artifactPath, content, "utf8")
+			await fs.writeFile(
+				getArtifactSidecarPath(group.artifactPath, ".meta.json"),
+				JSON.stringify(metadata, null, 2),
+				"utf8",
+			)
+		} catch (error) {
+			await this.debugLog(
+				`Failed to persist group index ${group.id}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+		}
+	}
+
+	/**
+	 * Refresh the group index and send the group-complete notification once
+	 * every member has reached a terminal state.
+	 */
+	private async handleGroupMemberTerminal(groupId: string): Promise<void> {
+		const group = this.groups.get(groupId)
+		if (!group || !group.launched || group.notifiedAt) return
+
+		// Member completions race; one pass at a time keeps the index current
+		let mutex = this.groupMutexes.get(groupId)
+		if (!mutex) {
+			mutex = new Mutex()
+			this.groupMutexes.set(groupId, mutex)
+		}
+
+		await mutex.runExclusive(async () => {
+			// A pass that held the lock before this one may have notified already
+			if (group.notifiedAt) return
+
+			const members = await this.getGroupMembers(group)
+			const allTerminal = members.every(
+				(member) => member.status === "not_found" || isTerminalStatus(member.status),
+			)
+			if (allTerminal && !group.completedAt) {
+				group.completedAt = new Date()
+			}
+
+			await this.persistGroupIndex(group)
+			if (!allTerminal) return
+
+			group.notifiedAt = new Date()
+			try {
+				await this.client.session.prompt({
+					path: { id: group.parentSessionID },
+					body: {
+						noReply: true,
+						agent: group.parentAgent,
+						parts: [{ type: "text", text: this.buildGroupCompleteNotification(group, members) }],
+					},
+				})
+				this.groupNotifyRetries.delete(group.id)
+				await this.debugLog(`group-complete notification sent for ${group.id}`)
+			} catch (error) {
+				group.notifiedAt = undefined
+				await this.debugLog(
+					`group-complete notification failed for ${group.id}: ${error instanceof Error ? error.message : "Unknown error"}`,
+				)
+				this.scheduleGroupNotifyRetry(group.id)
+			}
+			await this.persistState()
+		})
+	}
+
+	/**
+	 * Retry a failed group-complete notification with doubling delays. Once retries run
+	 * out, the group stays unnotified in the state file and rehydrate tries again.
+	 */
+	private scheduleGroupNotifyRetry(groupId: string): void {
+		const retries = (this.groupNotifyRetries.get(groupId) ?? 0) + 1
+		if (retries > GROUP_NOTIFY_MAX_RETRIES) return
+		this.groupNotifyRetries.set(groupId, retries)
+
+		setTimeout(
+			() => {
+				void this.handleGroupMemberTerminal(groupId)
+			},
+			GROUP_NOTIFY_RETRY_DELAY_MS * 2 ** (retries - 1),
+		)
+	}
+
+	private buildGroupCompleteNotification(
+		group: DelegationGroup,
+		members: DelegationGroupMember[],
+	): string {
+		const failed = members.filter((member) => member.status !== "complete").length
+		return [
+			"<task-notification>",
+			"<type>group-complete</type>",
+			`<group-id>${group.id}</group-id>`,
+			`<status>${failed === 0 ? "completed" : "completed-with-failures"}</status>`,
+			`<summary>Batch ${group.name ? `"${group.name}"` : group.id} complete: ${members.length - failed}/${members.length} succeeded.</summary>`,
+			`<members>${members.map((member) => `${member.id} (${member.status})`).join(", ")}</members>`,
+			`<artifact>${group.artifactPath}</artifact>`,
+			`<retrieval>Use delegation_read("${group.id}") for the combined index.</retrieval>`,
+			"</task-notification>",
+		].join("\n")
+	}
+
+	/**
+	 * Count running delegations for a root session and for the whole project
+	 */
+	private getRunningCounts(rootSessionID: string): { session: number; project: number } {
+		let session = 0
+		let project = 0
+		for (const delegation of this.delegations.values()) {
+			if (delegation.status !== "running") continue
+			project += 1
+			if (delegation.rootSessionID === rootSessionID) session += 1
+		}
+		return { session, project }
+	}
+
+	private hasCapacity(rootSessionID: string): boolean {
+		const running = this.getRunningCounts(rootSessionID)
+		return (
+			running.session < this.maxConcurrentPerSession &&
+			running.project < this.maxConcurrentPerProject
+		)
+	}
+
+	/**
+	 * Queued delegations in start order: highest priority first, then FIFO
+	 */
+	private getQueuedDelegations(): DelegationRecord[] {
+		return Array.from(this.delegations.values())
+			.filter((delegation) => delegation.status === "queued")
+			.sort((a, b) => {
+				if (a.priority !== b.priority) return b.priority - a.priority
+				const aTime = a.queuedAt?.getTime() ?? a.createdAt.getTime()
+				const bTime = b.queuedAt?.getTime() ?? b.createdAt.getTime()
+				return aTime - bTime
+			})
+	}
+
+	/**
+	 * 1-based position of a queued delegation, or undefined when not queued
+	 */
+	getQueuePosition(id: string): number | undefined {
+		const index = this.getQueuedDelegations().findIndex((delegation) => delegation.id === id)
+		return index === -1 ? undefined : index + 1
+	}
+
+	/**
+	 * Start queued delegations while slots are free
+	 */
+	private drainQueue(): void {
+		let started = false
+		for (const delegation of this.getQueuedDelegations()) {
+			if (!this.hasCapacity(delegation.rootSessionID)) continue
+			this.startDelegation(delegation.id)
+			started = true
+		}
+		if (started) void this.persistState()
+	}
+
+	/**
+	 * Transition a delegation to running and fire its prompt
+	 */
+	private startDelegation(id: string): void {
+		const delegation = this.markStarted(id)
+		if (!delegation || delegation.status !== "running") return
+
+		this.scheduleTimeout(delegation.id)
+		void this.debugLog(`Starting delegation ${delegation.id}`)
+		this.promptDelegationSession(delegation)
+	}
+
+	/**
+	 * Open a new attempt and fire the delegation prompt into its current session
+	 */
+	private promptDelegationSession(delegation: DelegationRecord): void {
+		const continuation = delegation.turns[delegation.turns.length - 1]
+		const initialPrompt = delegation.dependencyContext
+			? `${delegation.dependencyContext}\n\n${delegation.prompt}`
+			: delegation.prompt
+		const promptText = continuation
+			? continuation.prompt
+			: delegation.outputSchema
+				? `${initialPrompt}\n\n${buildStructuredOutputInstructions(delegation.outputSchema)}`
+				: initialPrompt
+
+		const startedAt = new Date()
+		delegation.attempts.push({
+			attempt: delegation.attempts.length + 1,
+			turn: getCurrentTurn(delegation),
+			sessionID: delegation.sessionID,
+			startedAt,
+		})
+		// Each attempt starts a fresh inactivity window
+		delegation.progress.lastHeartbeatAt = startedAt
+		this.scheduleStallCheck(delegation.id)
+		this.sendDelegationPrompt(delegation, promptText)
+	}
+
+	/**
+	 * Fire a prompt into the delegation's current session; failures go through the retry policy
+	 */
+	private sendDelegationPrompt(delegation: DelegationRecord, text: string): void {
+		// Fire the prompt (using prompt() instead of promptAsync() to properly initialize agent loop)
+		// Agent param is critical for MCP tools - tells OpenCode which agent's config to use
+		// Anti-recursion: disable nested delegations and state-modifying tools via tools config
+		// (DEFAULT_DISABLED_TOOLS merged with the configured disabledTools map)
+		this.client.session
+			.prompt({
+				path: { id: delegation.sessionID },
+				query: delegation.worktree
+					? { directory: getWorktreeDirectory(delegation.worktree) }
+					: undefined,
+				body: {
+					agent: delegation.agent,
+					model: delegation.model,
+					parts: [{ type: "text", text }],
+					tools: this.childTools,
+				},
+			})
+			.catch((error: Error) => {
+				void this.handlePromptFailure(delegation.id, error.message)
+			})
+	}
+
+	private closeCurrentAttempt(delegation: DelegationRecord, now: Date, error?: string): void {
+		const current = delegation.attempts[delegation.attempts.length - 1]
+		if (!current || current.endedAt) return
+		current.endedAt = now
+		current.durationMs = now.getTime() - current.startedAt.getTime()
+		if (error) current.error = error
+	}
+
+	private clearRetryTimer(id: string): void {
+		const timer = this.retryTimers.get(id)
+		if (!timer) return
+		clearTimeout(timer)
+		this.retryTimers.delete(id)
+	}
+
+	private isRetryableError(message: string): boolean {
+		return this.retryPolicy.retryableErrorPatterns.some((pattern) => pattern.test(message))
+	}
+
+	private getRetryDelayMs(failedAttempt: number): number {
+		const delay =
+			this.retryPolicy.initialDelayMs * this.retryPolicy.backoffMultiplier ** (failedAttempt - 1)
+		return Math.min(delay, this.retryPolicy.maxDelayMs)
+	}
+
+	/**
+	 * Record a failed attempt and either schedule a retry or finalize as error.
+	 * The parent is only notified once the last attempt has failed.
+	 */
+	private async handlePromptFailure(delegationId: string, message: string): Promise<void> {
+		const delegation = this.delegations.get(delegationId)
+		if (!delegation || isTerminalStatus(delegation.status)) return
+
+		const turn = getCurrentTurn(delegation)
+		const attemptCount = delegation.attempts.filter(
+			(attempt) => (attempt.turn ?? 1) === turn,
+		).length
+		const canRetry =
+			attemptCount < this.retryPolicy.maxAttempts &&
+			this.isRetryableError(message) &&
+			delegation.timeoutAt.getTime() > Date.now()
+
+		if (!canRetry) {
+			const error = attemptCount > 1 ? `${message} (after ${attemptCount} attempts)` : message
+			await this.finalizeDelegation(delegation.id, "error", error)
+			return
+		}
+
+		const delayMs = this.getRetryDelayMs(attemptCount)
+		this.updateDelegation(delegation.id, (record, now) => {
+			this.closeCurrentAttempt(record, now, message)
+			record.progress.lastMessage = `Attempt ${attemptCount} failed (${message}); retrying in ${delayMs / 1000}s`
+			record.progress.lastMessageAt = now
+		})
+
+		// Arm the retry before any await: the failed session goes idle right after the
+		// failure, and handleSessionIdle must not finalize it during the backoff
+		this.clearRetryTimer(delegation.id)
+		const timer = setTimeout(() => {
+			this.retryTimers.delete(delegation.id)
+			void this.retryDelegation(delegation.id)
+		}, delayMs)
+		this.retryTimers.set(delegation.id, timer)
+
+		// First-turn retries run in a fresh session; detach and stop the abandoned one
+		if (delegation.turns.length === 0) {
+			const failedSessionID = delegation.sessionID
+			this.delegationsBySession.delete(failedSessionID)
+			void this.client.session
+				.abort({ path: { id: failedSessionID } })
+				.catch(async (error: unknown) => {
+					await this.debugLog(
+						`handlePromptFailure abort failed for ${delegation.id}: ${error instanceof Error ? error.message : "Unknown error"}`,
+					)
+				})
+		}
+
+		await this.debugLog(
+			`Delegation ${delegation.id} attempt ${attemptCount} failed, retrying in ${delayMs}ms: ${message}`,
+		)
+		await this.persistState()
+	}
+
+	/**
+	 * Re-run a delegation in a fresh child session after a retryable failure
+	 */
+	private async retryDelegation(delegationId: string): Promise<void> {
+		const delegation = this.delegations.get(delegationId)
+		if (!delegation || isTerminalStatus(delegation.status)) return
+
+		// Continuation turns depend on the session's conversation; retry in place
+		if (delegation.turns.length > 0) {
+			await this.debugLog(
+				`Retrying delegation ${delegation.id} turn ${getCurrentTurn(delegation)} in its existing session`,
+			)
+			this.promptDelegationSession(delegation)
+			await this.persistState()
+			return
+		}
+
+		const previousSessionID = delegation.sessionID
+		let sessionResult: Awaited<ReturnType<OpencodeClient["session"]["create"]>>
+		try {
+			// A fresh attempt also starts from a clean worktree
+			if (delegation.worktree) await this.resetWorktree(delegation.worktree)
+			sessionResult = await this.client.session.create({
+				body: {
+					title: `Delegation: ${delegation.id} (attempt ${delegation.attempts.length + 1})`,
+					parentID: delegation.parentSessionID,
+				},
+				query: delegation.worktree
+					? { directory: getWorktreeDirectory(delegation.worktree) }
+					: undefined,
+			})
+		} catch (error) {
+			await this.finalizeDelegation(
+				delegation.id,
+				"error",
+				`Failed to create retry session: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+			return
+		}
+
+		if (!sessionResult.data?.id) {
+			await this.finalizeDelegation(delegation.id, "error", "Failed to create retry session")
+			return
+		}
+
+		// Cancelled while the session was being created
+		if (isTerminalStatus(delegation.status)) return
+
+		this.delegationsBySession.delete(previousSessionID)
+		delegation.sessionID = sessionResult.data.id
+		this.delegationsBySession.set(delegation.sessionID, delegation.id)
+
+		await this.debugLog(
+			`Retrying delegation ${delegation.id} in session ${delegation.sessionID} (attempt ${delegation.attempts.length + 1})`,
+		)
+		this.promptDelegationSession(delegation)
+		await this.persistState()
+	}
+
+	/**
+	 * Stall watchdog: flag a running delegation with no message or tool activity
+	 * for the stall timeout, then notify the parent or abort per the stall action.
+	 */
+	private async handleStallCheck(delegationId: string): Promise<void> {
+		this.stallTimers.delete(delegationId)
+		const delegation = this.delegations.get(delegationId)
+		if (!delegation || delegation.status !== "running" || delegation.progress.stalledAt) return
+		// A retry backoff is not a stall; the next attempt re-arms the watchdog
+		if (this.retryTimers.has(delegation.id)) return
+
+		const idleMs = Date.now() - delegation.progress.lastHeartbeatAt.getTime()
+		if (idleMs < this.stallTimeoutMs) {
+			this.scheduleStallCheck(delegation.id)
+			return
+		}
+
+		delegation.progress.stalledAt = new Date()
+		const idleSeconds = Math.round(idleMs / 1000)
+		this.log.warn(`Delegation ${delegation.id} stalled: no activity for ${idleSeconds}s`)
+
+		if (this.stallAction === "abort") {
+			// Same-tick abort + finalize, as in cancelDelegation
+			const abortRequest = this.client.session
+				.abort({ path: { id: delegation.sessionID } })
+				.catch(async (error: unknown) => {
+					await this.debugLog(
+						`handleStallCheck abort failed for ${delegation.id}: ${error instanceof Error ? error.message : "Unknown error"}`,
+					)
+				})
+			await this.finalizeDelegation(
+				delegation.id,
+				"timeout",
+				`Delegation stalled: no activity for ${idleSeconds}s`,
+			)
+			await abortRequest
+			return
+		}
+
+		try {
+			await this.client.session.prompt({
+				path: { id: delegation.parentSessionID },
+				body: {
+					noReply: true,
+					agent: delegation.parentAgent,
+					parts: [{ type: "text", text: this.buildStallNotification(delegation, idleSeconds) }],
+				},
+			})
+		} catch (error) {
+			await this.debugLog(
+				`stall notification failed for ${delegation.id}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+		}
+		await this.persistState()
+	}
+
+	private buildStallNotification(delegation: DelegationRecord, idleSeconds: number): string {
+		return [
+			"<task-notification>",
+			"<type>stalled</type>",
+			`<task-id>${delegation.id}</task-id>`,
+			`<status>${delegation.status}</status>`,
+			`<summary>Background agent stalled: no activity for ${idleSeconds}s</summary>`,
+			`<last-activity>${delegation.progress.lastHeartbeatAt.toISOString()}</last-activity>`,
+			delegation.progress.lastTool ? `<last-tool>${delegation.progress.lastTool}</last-tool>` : "",
+			`<hint>It is still running until ${delegation.timeoutAt.toISOString()}. Keep working, or use delegation_cancel("${delegation.id}") to stop it and keep the partial output.</hint>`,
+			"</task-notification>",
+		]
+			.filter((line) => line.length > 0)
+			.join("\n")
+	}
+
+	/**
+	 * Handle delegation timeout
+	 */
+	private async handleTimeout(delegationId: string): Promise<void> {
+		const delegation = this.delegations.get(delegationId)
+		if (!delegation || isTerminalStatus(delegation.status)) return
+
+		await this.debugLog(`handleTimeout for delegation ${delegation.id}`)
+
+		// Try to cancel the session
+		try {
+			await this.client.session.delete({
+				path: { id: delegation.sessionID },
+			})
+		} catch {
+			// Ignore
+		}
+
+		await this.finalizeDelegation(
+			delegation.id,
+			"timeout",
+			`Delegation timed out after ${delegation.maxRunTimeMs / 1000}s`,
+		)
+	}
+
+	/**
+	 * Rebuild a terminal delegation record from its persisted artifact metadata,
+	 * so delegations from before a restart can be continued.
+	 */
+	private async loadPersistedDelegation(
+		sessionID: string,
+		id: string,
+	): Promise<DelegationRecord | undefined> {
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const artifactPath = path.join(await this.getDelegationsDir(sessionID), `${id}.md`)
+		const metadata = await readArtifactMetadata(artifactPath, id)
+		if (!metadata?.sessionID || !metadata.agent || metadata.kind === "group") return undefined
+		if (!isTerminalStatus(metadata.status)) return undefined
+
+		const now = new Date()
+		const createdAt = metadata.createdAt ? new Date(metadata.createdAt) : now
+		const completedAt = metadata.completedAt ? new Date(metadata.completedAt) : now
+		const maxRunTimeMs = metadata.maxRunTimeMs ?? this.maxRunTimeMs
+
+		const delegation: DelegationRecord = {
+			id,
+			rootSessionID,
+			sessionID: metadata.sessionID,
+			parentSessionID: metadata.parentSessionID ?? sessionID,
+			parentMessageID: metadata.parentMessageID ?? "",
+			parentAgent: metadata.parentAgent ?? "",
+			prompt: metadata.prompt ?? "",
+			agent: metadata.agent,
+			notificationCycle: 0,
+			notificationCycleToken: "",
+			status: metadata.status,
+			priority: 0,
+			createdAt,
+			startedAt: metadata.startedAt ? new Date(metadata.startedAt) : undefined,
+			completedAt,
+			updatedAt: now,
+			maxRunTimeMs,
+			timeoutAt: new Date(createdAt.getTime() + maxRunTimeMs),
+			progress: {
+				toolCalls: 0,
+				toolCallsByName: {},
+				currentStep: 0,
+				lastUpdateAt: now,
+				lastHeartbeatAt: now,
+			},
+			attempts: [],
+			notification: { terminalNotifiedAt: completedAt, terminalNotificationCount: 1 },
+			retrieval: {
+				retrievalCount: metadata.retrievalCount ?? 0,
+				retrievedAt: metadata.retrievedAt ? new Date(metadata.retrievedAt) : undefined,
+			},
+			artifact: { filePath: artifactPath, persistedAt: now, byteLength: metadata.byteLength },
+			dependsOn: metadata.dependsOn ?? [],
+			dependencyFailurePolicy: this.dependencyFailurePolicy,
+			turns: (metadata.turns ?? []).map((turn) => ({
+				...turn,
+				requestedAt: new Date(turn.requestedAt),
+			})),
+			groupID: metadata.groupID,
+			pinned: metadata.pinned,
+			usage: metadata.usage,
+			model: metadata.model,
+			outputSchema: metadata.outputSchema,
+			structuredOutput: metadata.structuredOutput,
+			redactions: metadata.redactions,
+			error: metadata.error,
+			title: metadata.title,
+			description: metadata.description,
+			tags: metadata.tags,
+			entities: metadata.entities,
+		}
+
+		this.delegations.set(delegation.id, delegation)
+		this.delegationsBySession.set(delegation.sessionID, delegation.id)
+		return delegation
+	}
+
+	/**
+	 * Send a follow-up prompt into a finished delegation's existing session.
+	 * Starts a new turn with its own notification cycle; the answer is appended
+	 * to the artifact as a versioned section.
+	 */
+	async continueDelegation(input: {
+		parentSessionID: string
+		parentMessageID: string
+		parentAgent: string
+		id: string
+		prompt: string
+	}): Promise<DelegationRecord> {
+		const normalizedId = normalizeId(input.id)
+		if (!normalizedId) {
+			throw new Error("Delegation ID is required")
+		}
+		if (!input.prompt.trim()) {
+			throw new Error("A follow-up prompt is required")
+		}
+
+		const rootSessionID = await this.getRootSessionID(input.parentSessionID)
+		let delegation = this.delegations.get(normalizedId)
+		if (delegation && !this.isVisibleToSession(delegation, rootSessionID)) {
+			delegation = undefined
+		}
+		delegation ??= await this.loadPersistedDelegation(input.parentSessionID, normalizedId)
+
+		if (!delegation) {
+			throw new Error(
+				`Delegation "${normalizedId}" not found.\n\nUse delegation_list() to see available delegations.`,
+			)
+		}
+
+		if (!isTerminalStatus(delegation.status)) {
+			throw new Error(
+				`Delegation "${delegation.id}" is still ${delegation.status}. Wait for its <task-notification> before continuing it.`,
+			)
+		}
+
+		if (delegation.worktree) {
+			throw new Error(
+				`Delegation "${delegation.id}" ran in a worktree that was removed when it finished. Start a new delegation instead.`,
+			)
+		}
+
+		const session = await this.client.session
+			.get({ path: { id: delegation.sessionID } })
+			.catch(() => undefined)
+		if (!session?.data?.id) {
+			throw new Error(
+				`The session for delegation "${delegation.id}" no longer exists (status: ${delegation.status}). Start a new delegation instead.`,
+			)
+		}
+
+		// Reopen as a new turn, reported to whoever asked the follow-up
+		if (!this.pendingByParent.has(input.parentSessionID)) {
+			this.pendingByParent.set(input.parentSessionID, new Set())
+			this.resetParentAllCompleteNotificationCycle(input.parentSessionID)
+		}
+		const parentNotificationState = this.getParentNotificationState(input.parentSessionID)
+		const turn = getCurrentTurn(delegation) + 1
+
+		this.updateDelegation(delegation.id, (record, now) => {
+			record.turns.push({ turn, prompt: input.prompt, requestedAt: now })
+			record.parentSessionID = input.parentSessionID
+			record.parentMessageID = input.parentMessageID
+			record.parentAgent = input.parentAgent
+			record.notificationCycle = parentNotificationState.allCompleteCycle
+			record.notificationCycleToken = parentNotificationState.allCompleteCycleToken
+			record.status = "registered"
+			record.completedAt = undefined
+			record.error = undefined
+			record.result = undefined
+			record.notification.terminalNotifiedAt = undefined
+		})
+
+		this.terminalWaiters.delete(delegation.id)
+		this.createTerminalWaiter(delegation.id)
+		this.pendingByParent.get(input.parentSessionID)?.add(delegation.id)
+
+		await this.debugLog(`continueDelegation: ${delegation.id} turn ${turn}`)
+		await this.admitDelegation(delegation)
+		await this.persistState()
+
+		return delegation
+	}
+
+	/**
+	 * Cancel a running delegation on request (aborts session, persists partial output)
+	 */
+	async cancelDelegation(
+		sessionID: string,
+		id: string,
+		reason?: string,
+	): Promise<DelegationRecord> {
+		const normalizedId = normalizeId(id)
+		if (!normalizedId) {
+			throw new Error("Delegation ID is required")
+		}
+
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const delegation = this.delegations.get(normalizedId)
+		if (!delegation || !this.isVisibleToSession(delegation, rootSessionID)) {
+			throw new Error(
+				`Delegation "${normalizedId}" not found or not running.\n\nUse delegation_list() to see available delegations.`,
+			)
+		}
+
+		if (isTerminalStatus(delegation.status)) {
+			throw new Error(
+				`Delegation "${delegation.id}" already reached terminal status "${delegation.status}" and cannot be cancelled.`,
+			)
+		}
+
+		await this.debugLog(`cancelDelegation for delegation ${delegation.id}`)
+
+		// Issue the abort in the same tick as finalization: markTerminal flips the status
+		// synchronously, so the idle event caused by the abort cannot finalize as "complete".
+		const abortRequest = this.client.session
+			.abort({ path: { id: delegation.sessionID } })
+			.catch(async (error: unknown) => {
+				await this.debugLog(
+					`cancelDelegation abort failed for ${delegation.id}: ${error instanceof Error ? error.message : "Unknown error"}`,
+				)
+			})
+
+		await this.finalizeDelegation(
+			delegation.id,
+			"cancelled",
+			reason ? `Cancelled: ${reason}` : "Cancelled by request",
+		)
+		await abortRequest
+
+		return delegation
+	}
+
+	/**
+	 * Handle session.idle event - called when a session becomes idle
+	 */
+	async handleSessionIdle(sessionID: string): Promise<void> {
+		const delegation = this.findBySession(sessionID)
+		if (!delegation || isTerminalStatus(delegation.status)) return
+		// A waiting/queued session has not been prompted yet; idle carries no result
+		if (isAwaitingStart(delegation.status)) return
+		// Idle after a failed prompt; the pending retry decides the outcome
+		if (this.retryTimers.has(delegation.id)) return
+
+		await this.debugLog(`handleSessionIdle for delegation ${delegation.id}`)
+		if (await this.repairStructuredOutput(delegation)) return
+		await this.finalizeDelegation(delegation.id, "complete")
+	}
+
+	/**
+	 * Check a structured delegation's answer before it completes. On a schema mismatch,
+	 * re-prompt the same session with the errors while repairs and run time remain.
+	 * Returns true when completion is deferred (the next idle event checks again).
+	 */
+	private async repairStructuredOutput(delegation: DelegationRecord): Promise<boolean> {
+		if (!delegation.outputSchema || delegation.turns.length > 0) return false
+		// Idle events can repeat while the answer is being fetched
+		if (this.structuredOutputChecks.has(delegation.id)) return true
+
+		this.structuredOutputChecks.add(delegation.id)
+		try {
+			const { errors } = checkStructuredOutput(
+				await this.getResult(delegation),
+				delegation.outputSchema,
+			)
+			const repairs = delegation.structuredOutput?.repairs ?? 0
+			if (errors.length === 0 || repairs >= this.structuredOutputMaxRepairs) return false
+			if (delegation.timeoutAt.getTime() <= Date.now()) return false
+			// Cancelled while the answer was being fetched
+			if (isTerminalStatus(delegation.status)) return true
+
+			this.updateDelegation(delegation.id, (record, now) => {
+				record.structuredOutput = { valid: false, repairs: repairs + 1, errors }
+				record.progress.lastMessage = `Structured output invalid; repair ${repairs + 1}/${this.structuredOutputMaxRepairs} requested`
+				record.progress.lastMessageAt = now
+				record.progress.lastHeartbeatAt = now
+			})
+			await this.debugLog(
+				`Delegation ${delegation.id} structured output invalid, requesting repair ${repairs + 1}: ${errors.join("; ")}`,
+			)
+			this.scheduleStallCheck(delegation.id)
+			this.sendDelegationPrompt(delegation, buildStructuredOutputRepairPrompt(errors))
+			await this.persistState()
+			return true
+		} finally {
+			this.structuredOutputChecks.delete(delegation.id)
+		}
+	}
+
+	/**
+	 * Validate the final answer and write the object as `<id>.json` next to the artifact.
+	 * A mismatch is recorded on the delegation; the markdown artifact is written either way.
+	 */
+	private async persistStructuredOutput(
+		delegation: DelegationRecord,
+		schema: JsonSchema,
+		result: string,
+	): Promise<void> {
+		const repairs = delegation.structuredOutput?.repairs ?? 0
+		const { value, errors } = checkStructuredOutput(result, schema)
+		if (errors.length > 0) {
+			delegation.structuredOutput = { valid: false, repairs, errors }
+			await this.debugLog(
+				`Delegation ${delegation.id} structured output invalid after ${repairs} repair(s): ${errors.join("; ")}`,
+			)
+			return
+		}
+
+		const jsonPath = getArtifactSidecarPath(delegation.artifact.filePath, ".json")
+		try {
+			await fs.writeFile(jsonPath, `${JSON.stringify(value, null, 2)}\n`, "utf8")
+			delegation.structuredOutput = { valid: true, repairs, path: jsonPath }
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Unknown error"
+			delegation.structuredOutput = {
+				valid: false,
+				repairs,
+				errors: [`valid, but ${jsonPath} could not be written: ${message}`],
+			}
+			await this.debugLog(`persistStructuredOutput failed for ${delegation.id}: ${message}`)
+		}
+	}
+
+	/**
+	 * Get the result from a delegation's session
+	 */
+	private async getResult(delegation: DelegationRecord): Promise<string> {
+		try {
+			const messages = await this.client.session.messages({
+				path: { id: delegation.sessionID },
+			})
+
+			const messageData = messages.data as SessionMessageItem[] | undefined
+
+			if (!messageData || messageData.length === 0) {
+				await this.debugLog(`getResult: No messages found for session ${delegation.sessionID}`)
+				return `Delegation "${delegation.description}" completed but produced no output.`
+			}
+
+			await this.debugLog(
+				`getResult: Found ${messageData.length} messages. Roles: ${messageData.map((m) => m.info.role).join(", ")}`,
+			)
+			this.recordSessionUsage(delegation, delegation.sessionID, messageData)
+
+			// Find the last message from the assistant/model
+			const isAssistantMessage = (m: SessionMessageItem): m is AssistantSessionMessageItem =>
+				m.info.role === "assistant"
+
+			const assistantMessages = messageData.filter(isAssistantMessage)
+
+			if (assistantMessages.length === 0) {
+				await this.debugLog(
+					`getResult: No assistant messages found in ${JSON.stringify(messageData.map((m) => ({ role: m.info.role, keys: Object.keys(m) })))}`,
+				)
+				return `Delegation "${delegation.description}" completed but produced no assistant response.`
+			}
+
+			const lastMessage = assistantMessages[assistantMessages.length - 1]
+
+			// Extract text parts from the message
+			const isTextPart = (p: Part): p is TextPart => p.type === "text"
+			const textParts = lastMessage.parts.filter(isTextPart)
+
+			if (textParts.length === 0) {
+				await this.debugLog(
+					`getResult: No text parts found in message: ${JSON.stringify(lastMessage)}`,
+				)
+				return `Delegation "${delegation.description}" completed but produced no text content.`
+			}
+
+			return textParts.map((p) => p.text).join("\n")
+		} catch (error) {
+			await this.debugLog(
+				`getResult error: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+			return `Delegation "${delegation.description}" completed but result could not be retrieved: ${
+				error instanceof Error ? error.message : "Unknown error"
+			}`
+		}
+	}
+
+	private recordSessionUsage(
+		delegation: DelegationRecord,
+		sessionID: string,
+		messages: SessionMessageItem[],
+	): void {
+		delegation.usageBySession = {
+			...delegation.usageBySession,
+			[sessionID]: summarizeSessionUsage(messages),
+		}
+		delegation.usage = sumUsage(Object.values(delegation.usageBySession))
+	}
+
+	/**
+	 * Fill in usage for child sessions whose messages were not read for the result:
+	 * earlier retry attempts, and the current session when the delegation failed.
+	 */
+	private async collectUsage(delegation: DelegationRecord): Promise<void> {
+		const sessionIDs = new Set([
+			...delegation.attempts.map((attempt) => attempt.sessionID),
+			delegation.sessionID,
+		])
+
+		for (const sessionID of sessionIDs) {
+			if (delegation.usageBySession?.[sessionID]) continue
+			try {
+				const messages = await this.client.session.messages({ path: { id: sessionID } })
+				this.recordSessionUsage(
+					delegation,
+					sessionID,
+					(messages.data as SessionMessageItem[] | undefined) ?? [],
+				)
+			} catch (error) {
+				await this.debugLog(
+					`collectUsage failed for ${delegation.id} session ${sessionID}: ${error instanceof Error ? error.message : "Unknown error"}`,
+				)
+			}
+		}
+	}
+
+	/**
+	 * Persist delegation output to storage
+	 */
+	private async persistOutput(delegation: DelegationRecord, content: string): Promise<void> {
+		try {
+			// Use title/description if available (generated by small model), otherwise fallback
+			const title = delegation.title || delegation.id
+			const description = delegation.description || "(No description generated)"
+			const details = buildArtifactHeaderDetails(delegation)
+				.map((line) => `${line}\n`)
+				.join("")
+
+			const body = await this.buildArtifactBody(delegation, content)
+
+			const header = `# ${title}
+
+${description}
+
+**ID:** ${delegation.id}
+**Agent:** ${delegation.agent}
+**Status:** ${delegation.status}
+**Session:** ${delegation.sessionID}
+**Started:** ${(delegation.startedAt || delegation.createdAt).toISOString()}
+**Completed:** ${delegation.completedAt?.toISOString() || "N/A"}
+${details}
+---
+
+`
+			await fs.writeFile(delegation.artifact.filePath, header + body, "utf8")
+
+			const stats = await fs.stat(delegation.artifact.filePath)
+			this.updateDelegation(delegation.id, (record, now) => {
+				record.artifact.persistedAt = now
+				record.artifact.byteLength = stats.size
+				record.artifact.persistError = undefined
+			})
+			await this.writeArtifactMetadata(delegation)
+
+			await this.debugLog(`Persisted output to ${delegation.artifact.filePath}`)
+		} catch (error) {
+			this.updateDelegation(delegation.id, (record) => {
+				record.artifact.persistError =
+					error instanceof Error ? error.message : "Unknown persistence error"
+			})
+			await this.debugLog(
+				`Failed to persist output: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+		}
+	}
+
+	/**
+	 * Artifact body for the current turn. Continuation turns are appended to the
+	 * previously persisted body as a versioned section.
+	 */
+	private async buildArtifactBody(delegation: DelegationRecord, content: string): Promise<string> {
+		const continuation = delegation.turns[delegation.turns.length - 1]
+		if (!continuation) return content
+
+		const previous = await this.readPersistedArtifact(delegation.artifact.filePath)
+		const previousBody = previous === null ? "" : getArtifactBody(previous).trim()
+
+		return `${previousBody}
+
+---
+
+## Turn ${continuation.turn}
+
+**Prompt:** ${this.redact(continuation.prompt).text}
+**Completed:** ${delegation.completedAt?.toISOString() || "N/A"}
+
+${content}`
+	}
+
+	/**
+	 * Resolve optional model/provider arguments against the configured providers.
+	 * Fail-fast with the available choices, like an unknown agent.
+	 */
+	private async resolveModelOverride(
+		model?: string,
+		provider?: string,
+	): Promise<DelegationModel | undefined> {
+		if (!model && !provider) return undefined
+
+		const providersResult = await this.client.config.providers({})
+		const providers = providersResult.data?.providers ?? []
+		const defaults = providersResult.data?.default ?? {}
+		const available = () =>
+			providers
+				.flatMap((p) =>
+					Object.entries(p.models).map(
+						([modelID, info]) =>
+							`• ${p.id}/${modelID}${info.name && info.name !== modelID ? ` - ${info.name}` : ""}`,
+					),
+				)
+				.join("\n") || "(none)"
+
+		// "provider/model" shorthand
+		let providerID = provider
+		let modelID = model
+		if (model && !provider && model.includes("/")) {
+			const separator = model.indexOf("/")
+			providerID = model.slice(0, separator)
+			modelID = model.slice(separator + 1)
+		}
+
+		if (providerID) {
+			const match = providers.find((p) => p.id === providerID)
+			if (!match) {
+				throw new Error(
+					`Provider "${providerID}" not found.\n\nAvailable providers:\n${providers.map((p) => `• ${p.id} - ${p.name}`).join("\n") || "(none)"}`,
+				)
+			}
+
+			modelID ??= defaults[match.id]
+			if (!modelID || !match.models[modelID]) {
+				throw new Error(
+					`Model "${modelID ?? "(default)"}" not found for provider "${match.id}".\n\nAvailable models:\n${available()}`,
+				)
+			}
+			return { providerID: match.id, modelID }
+		}
+
+		const candidates = providers.filter((p) => modelID && p.models[modelID])
+		if (candidates.length !== 1 || !modelID) {
+			const reason =
+				candidates.length === 0
+					? `Model "${modelID}" not found.`
+					: `Model "${modelID}" is offered by several providers (${candidates.map((p) => p.id).join(", ")}). Use "provider/model".`
+			throw new Error(`${reason}\n\nAvailable models:\n${available()}`)
+		}
+		return { providerID: candidates[0].id, modelID }
+	}
+
+	/**
+	 * Create a detached worktree of the project's HEAD for a write-capable delegation.
+	 * Fail-loud: the worktree must resolve to this project's ID, so the child session's
+	 * plugin instance shares delegation storage with the main checkout.
+	 */
+	private async createWorktree(id: string): Promise<DelegationWorktree> {
+		if (!this.projectDirectory) {
+			throw new Error("Worktree isolation is unavailable: the project directory is unknown.")
+		}
+
+		const head = await runGit(["rev-parse", "HEAD"], this.projectDirectory)
+		if (head.exitCode !== 0) {
+			throw new Error(
+				`Worktree isolation requires a git repository with at least one commit.\n\n${head.stderr.trim()}`,
+			)
+		}
+		const baseCommit = head.stdout.trim()
+		// The worktree mirrors the whole repository; start the agent where the project sits
+		const prefix = await runGit(["rev-parse", "--show-prefix"], this.projectDirectory)
+		const subdirectory = prefix.exitCode === 0 ? prefix.stdout.trim() : ""
+
+		const worktreePath = path.join(
+			getTempDir(),
+			WORKTREES_DIR_NAME,
+			path.basename(this.baseDir),
+			id,
+		)
+		await fs.mkdir(path.dirname(worktreePath), { recursive: true })
+
+		const added = await runGit(
+			["worktree", "add", "--detach", worktreePath, baseCommit],
+			this.projectDirectory,
+		)
+		if (added.exitCode !== 0) {
+			throw new Error(`Failed to create worktree for delegation ${id}:\n\n${added.stderr.trim()}`)
+		}
+
+		// A subdirectory with nothing committed is missing from the worktree; use its root then
+		const directory = subdirectory ? path.join(worktreePath, subdirectory) : undefined
+		const directoryStat = directory ? await fs.stat(directory).catch(() => null) : null
+		const worktree: DelegationWorktree = {
+			path: worktreePath,
+			directory: directoryStat?.isDirectory() ? directory : undefined,
+			baseCommit,
+		}
+		const [projectId, worktreeProjectId] = await Promise.all([
+			resolveProjectId(this.projectDirectory),
+			resolveProjectId(getWorktreeDirectory(worktree)),
+		])
+		if (projectId !== worktreeProjectId) {
+			await this.removeWorktree(worktree)
+			throw new Error(
+				`Worktree for delegation ${id} resolved to project ${worktreeProjectId}, expected ${projectId}.`,
+			)
+		}
+
+		await this.debugLog(`Created worktree for ${id} at ${worktreePath} (base ${baseCommit})`)
+		return worktree
+	}
+
+	/**
+	 * Discard everything a failed attempt left in the worktree
+	 */
+	private async resetWorktree(worktree: DelegationWorktree): Promise<void> {
+		await runGit(["reset", "--hard", worktree.baseCommit], worktree.path)
+		await runGit(["clean", "-fd"], worktree.path)
+	}
+
+	private async removeWorktree(worktree: DelegationWorktree): Promise<void> {
+		if (!this.projectDirectory) return
+
+		const removed = await runGit(
+			["worktree", "remove", "--force", worktree.path],
+			this.projectDirectory,
+		)
+		if (removed.exitCode !== 0) {
+			this.log.warn(`Failed to remove worktree ${worktree.path}: ${removed.stderr.trim()}`)
+			return
+		}
+		worktree.removedAt = new Date()
+	}
+
+	/**
+	 * Capture the worktree's changes (tracked and untracked) against its base commit as
+	 * `<id>.patch`, then remove the worktree. The main checkout is never touched.
+	 */
+	private async finalizeWorktree(
+		delegation: DelegationRecord,
+		worktree: DelegationWorktree,
+	): Promise<void> {
+		if (worktree.removedAt) return
+
+		const staged = await runGit(["add", "-A"], worktree.path)
+		const diff =
+			staged.exitCode === 0
+				? await runGit(["diff", "--cached", "--binary", worktree.baseCommit], worktree.path)
+				: staged
+
+		if (diff.exitCode !== 0) {
+			this.log.warn(`Failed to capture patch for ${delegation.id}: ${diff.stderr.trim()}`)
+		} else {
+			worktree.filesChanged = countPatchFiles(diff.stdout)
+			if (worktree.filesChanged > 0) {
+				const patchPath = getArtifactSidecarPath(delegation.artifact.filePath, ".patch")
+				try {
+					await fs.writeFile(patchPath, diff.stdout, "utf8")
+					worktree.patchPath = patchPath
+				} catch (error) {
+					this.log.warn(
+						`Failed to write patch for ${delegation.id}: ${error instanceof Error ? error.message : "Unknown error"}`,
+					)
+				}
+			}
+		}
+
+		await this.removeWorktree(worktree)
+	}
+
+	/**
+	 * Apply a worktree delegation's patch to the main checkout. This is the only path by
+	 * which its changes reach the project, and it always runs a check first.
+	 */
+	async applyPatch(
+		sessionID: string,
+		id: string,
+		options: { check?: boolean } = {},
+	): Promise<{ applied: boolean; filesChanged: number; output: string }> {
+		const normalizedId = normalizeId(id)
+		if (!normalizedId) {
+			throw new Error("Delegation ID is required")
+		}
+		if (!this.projectDirectory) {
+			throw new Error("Cannot apply patches: the project directory is unknown.")
+		}
+
+		const patchPath = path.join(await this.getDelegationsDir(sessionID), `${normalizedId}.patch`)
+		const patch = await this.readPersistedArtifact(patchPath)
+		if (patch === null) {
+			throw new Error(
+				`No patch found for delegation "${normalizedId}". Only finished delegations started with isolation: "worktree" that changed files have one.`,
+			)
+		}
+
+		this.gitTopLevel ??= await getGitTopLevel(this.projectDirectory)
+		if (!this.gitTopLevel) {
+			throw new Error(
+				`Cannot apply patches: ${this.projectDirectory} is not inside a git repository.`,
+			)
+		}
+
+		// Patch paths are relative to the repository root, not the project directory
+		const filesChanged = countPatchFiles(patch)
+		const checked = await runGit(["apply", "--check", patchPath], this.gitTopLevel)
+		if (checked.exitCode !== 0) {
+			throw new Error(
+				`Patch for "${normalizedId}" does not apply cleanly to the current checkout:\n\n${checked.stderr.trim()}`,
+			)
+		}
+		if (options.check) {
+			return { applied: false, filesChanged, output: checked.stdout.trim() }
+		}
+
+		const applied = await runGit(["apply", patchPath], this.gitTopLevel)
+		if (applied.exitCode !== 0) {
+			throw new Error(`Failed to apply patch for "${normalizedId}":\n\n${applied.stderr.trim()}`)
+		}
+
+		await this.debugLog(`Applied patch for ${normalizedId} (${filesChanged} files)`)
+		return { applied: true, filesChanged, output: applied.stdout.trim() }
+	}
+
+	/**
+	 * Read a worktree delegation's patch artifact
+	 */
+	async readPatch(sessionID: string, id: string): Promise<string> {
+		const normalizedId = normalizeId(id)
+		if (!normalizedId) {
+			throw new Error("Delegation ID is required")
+		}
+
+		const delegation = this.delegations.get(normalizedId)
+		if (delegation?.worktree && isActiveStatus(delegation.status)) {
+			return `Delegation "${delegation.id}" is still ${delegation.status}. Its patch is written when it finishes.`
+		}
+
+		const patchPath = path.join(await this.getDelegationsDir(sessionID), `${normalizedId}.patch`)
+		const patch = await this.readPersistedArtifact(patchPath)
+		if (patch === null) {
+			throw new Error(
+				`No patch found for delegation "${normalizedId}". Either it made no changes or it did not run with isolation: "worktree".`,
+			)
+		}
+		return patch
+	}
+
+	/**
+	 * Write the full child-session transcript next to the artifact. Rewritten on each
+	 * continuation turn, since the session then holds every turn.
+	 */
+	private async persistTranscript(delegation: DelegationRecord): Promise<void> {
+		const sessionIDs = Array.from(
+			new Set([...delegation.attempts.map((attempt) => attempt.sessionID), delegation.sessionID]),
+		)
+
+		const sessions: { sessionID: string; messages: SessionMessageItem[] }[] = []
+		for (const sessionID of sessionIDs) {
+			try {
+				const messages = await this.client.session.messages({ path: { id: sessionID } })
+				const data = (messages.data as SessionMessageItem[] | undefined) ?? []
+				if (data.length > 0) sessions.push({ sessionID, messages: data })
+			} catch {
+				// Session may already be deleted (e.g. after a timeout)
+			}
+		}
+		if (sessions.length === 0) return
+
+		const transcript = this.redact(formatTranscript(delegation, sessions))
+		if (transcript.count > 0) {
+			await this.debugLog(`Redacted ${transcript.count} secret(s) from ${delegation.id} transcript`)
+		}
+		try {
+			await fs.writeFile(
+				getArtifactSidecarPath(delegation.artifact.filePath, ".transcript.md"),
+				transcript.text,
+				"utf8",
+			)
+		} catch (error) {
+			await this.debugLog(
+				`Failed to persist transcript for ${delegation.id}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+		}
+	}
+
+	private redact(text: string): { text: string; count: number } {
+		return redactSecrets(text, this.redactionPolicy)
+	}
+
+	/**
+	 * Write the machine-readable metadata sidecar for a delegation's artifact
+	 */
+	private async writeArtifactMetadata(delegation: DelegationRecord): Promise<void> {
+		const metadataPath = getArtifactSidecarPath(delegation.artifact.filePath, ".meta.json")
+		const metadata = buildArtifactMetadata(delegation)
+		// Prompts can quote credentials; the in-memory copy is kept for retries
+		if (metadata.prompt) metadata.prompt = this.redact(metadata.prompt).text
+		metadata.turns = metadata.turns?.map((turn) => ({
+			...turn,
+			prompt: this.redact(turn.prompt).text,
+		}))
+		try {
+			await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), "utf8")
+		} catch (error) {
+			await this.debugLog(
+				`Failed to write artifact metadata: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+		}
+	}
+
+	/**
+	 * Read a delegation's output by ID. Blocks if the delegation is still running.
+	 */
+	async readOutput(
+		sessionID: string,
+		id: string,
+		scope: DelegationScope = "session",
+	): Promise<string> {
+		const normalizedId = normalizeId(id)
+		if (!normalizedId) {
+			throw new Error("Delegation ID is required")
+		}
+
+		const rootSessionID = await this.getRootSessionID(sessionID)
+
+		const group = this.groups.get(normalizedId)
+		if (group && group.rootSessionID === rootSessionID) {
+			return await this.readGroupOutput(sessionID, group)
+		}
+
+		let delegation = this.delegations.get(normalizedId)
+		if (delegation && !this.isVisibleToSession(delegation, rootSessionID)) {
+			delegation = undefined
+		}
+
+		const fallbackFilePath = path.join(
+			await this.getDelegationsDir(sessionID),
+			`${normalizedId}.md`,
+		)
+
+		const immediateArtifactPath = delegation?.artifact.filePath || fallbackFilePath
+		const immediateRead = await this.readPersistedArtifact(immediateArtifactPath)
+		if (immediateRead !== null) {
+			if (delegation) this.markRetrieved(delegation.id, sessionID)
+			return immediateRead
+		}
+
+		if (!delegation && scope === "project") {
+			const projectRead = await this.readProjectArtifact(normalizedId, rootSessionID)
+			if (projectRead !== null) return projectRead
+		}
+
+		if (!delegation) {
+			throw new Error(
+				`Delegation "${normalizedId}" not found.\n\nUse delegation_list(${scope === "project" ? 'scope: "project"' : ""}) to see available delegations.`,
+			)
+		}
+
+		if (isActiveStatus(delegation.status)) {
+			const remainingMs = Math.max(
+				delegation.timeoutAt.getTime() - Date.now() + this.terminalWaitGraceMs,
+				this.readPollIntervalMs,
+			)
+
+			await this.debugLog(
+				`readOutput: waiting up to ${remainingMs}ms for delegation ${delegation.id} to reach terminal state`,
+			)
+
+			const waitResult = await this.waitForTerminal(delegation.id, remainingMs)
+			// Waiting/queued delegations have not started their run-time budget yet
+			if (
+				waitResult === "timeout" &&
+				isActiveStatus(delegation.status) &&
+				!isAwaitingStart(delegation.status)
+			) {
+				await this.handleTimeout(delegation.id)
+			}
+		}
+
+		if (isTerminalStatus(delegation.status)) {
+			const delayedPersisted = await this.waitForPersistedArtifact(
+				delegation.artifact.filePath,
+				Math.max(this.readPollIntervalMs * 8, 500),
+			)
+			if (delayedPersisted !== null) {
+				this.markRetrieved(delegation.id, sessionID)
+				return delayedPersisted
+			}
+		}
+
+		const persisted = await this.readPersistedArtifact(delegation.artifact.filePath)
+		if (persisted !== null) {
+			this.markRetrieved(delegation.id, sessionID)
+			return persisted
+		}
+
+		if (isTerminalStatus(delegation.status)) {
+			return this.buildDeterministicTerminalReadResponse(delegation)
+		}
+
+		return `Delegation "${delegation.id}" is still running. You will receive a <task-notification> when it reaches a terminal state.`
+	}
+
+	/**
+	 * Read a condensed version of a delegation's result, generated by small_model and
+	 * cached next to the artifact. Blocks like readOutput while the delegation runs.
+	 */
+	async readSummary(
+		sessionID: string,
+		id: string,
+		scope: DelegationScope = "session",
+		maxTokens = DEFAULT_SUMMARY_MAX_TOKENS,
+	): Promise<string> {
+		const output = await this.readOutput(sessionID, id, scope)
+		const normalizedId = normalizeId(id)
+		// Batches, still-running delegations and unpersisted results have nothing to condense
+		if (this.groups.has(normalizedId)) return output
+		const artifactPath = await this.findArtifactPath(sessionID, normalizedId, scope)
+		const artifact = artifactPath ? await this.readPersistedArtifact(artifactPath) : null
+		if (!artifactPath || artifact === null) return output
+
+		const budget = Math.min(Math.max(Math.round(maxTokens), SUMMARY_MIN_TOKENS), SUMMARY_MAX_TOKENS)
+		const metadata = await readArtifactMetadata(artifactPath, normalizedId)
+		const heading = `# Summary: ${metadata?.title || normalizedId}`
+		const footer = `> Condensed to ~${budget} tokens from ${artifactPath}. Full output: delegation_read("${normalizedId}")`
+
+		const sourceHash = hashContent(artifact)
+		const cache = await readSummaryCache(artifactPath)
+		const cached = cache.entries[String(budget)]
+		if (cached?.sourceHash === sourceHash) {
+			return `${heading}\n\n${cached.summary}\n\n${footer}`
+		}
+
+		const summary = await this.summaryGenerator(
+			this.client,
+			getArtifactBody(artifact),
+			metadata?.sessionID ?? sessionID,
+			budget,
+			(msg) => this.debugLog(msg),
+		)
+		if (summary === null) {
+			// Fallback: leading slice of the body, not cached so a later read can retry
+			const maxChars = budget * CHARS_PER_TOKEN
+			const body = getArtifactBody(artifact).trim()
+			const excerpt = body.length > maxChars ? `${body.slice(0, maxChars).trimEnd()}…` : body
+			return `${heading}\n\n${excerpt}\n\n> small_model unavailable: showing the first ${maxChars} characters instead of a summary. Full output: delegation_read("${normalizedId}")`
+		}
+
+		cache.entries[String(budget)] = { sourceHash, summary, createdAt: new Date().toISOString() }
+		try {
+			await fs.writeFile(
+				getArtifactSidecarPath(artifactPath, ".summary.json"),
+				JSON.stringify(cache, null, 2),
+				"utf8",
+			)
+		} catch (error) {
+			await this.debugLog(
+				`readSummary cache write failed for ${normalizedId}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			)
+		}
+		return `${heading}\n\n${summary}\n\n${footer}`
+	}
+
+	/**
+	 * Locate a delegation's persisted artifact: this root session first, then (for
+	 * project scope) the newest match in the project's other sessions.
+	 */
+	private async findArtifactPath(
+		sessionID: string,
+		id: string,
+		scope: DelegationScope,
+	): Promise<string | null> {
+		const exists = async (filePath: string) => (await fs.stat(filePath).catch(() => null)) !== null
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const delegation = this.delegations.get(id)
+		const sessionPath =
+			delegation && this.isVisibleToSession(delegation, rootSessionID)
+				? delegation.artifact.filePath
+				: path.join(await this.getDelegationsDir(sessionID), `${id}.md`)
+		if (await exists(sessionPath)) return sessionPath
+		if (scope !== "project") return null
+
+		let newest: { artifactPath: string; date: string } | undefined
+		for (const sessionDir of await this.getProjectSessionDirs()) {
+			if (sessionDir.rootSessionID === rootSessionID) continue
+			const artifactPath = path.join(sessionDir.dir, `${id}.md`)
+			if (!(await exists(artifactPath))) continue
+			const metadata = await readArtifactMetadata(artifactPath, id)
+			const date = metadata?.completedAt ?? metadata?.startedAt ?? metadata?.createdAt ?? ""
+			if (!newest || date > newest.date) newest = { artifactPath, date }
+		}
+		return newest?.artifactPath ?? null
+	}
+
+	/**
+	 * Read a delegation's full transcript. Never blocks: transcripts are written
+	 * when the delegation finishes.
+	 */
+	async readTranscript(
+		sessionID: string,
+		id: string,
+		scope: DelegationScope = "session",
+	): Promise<string> {
+		const normalizedId = normalizeId(id)
+		if (!normalizedId) {
+			throw new Error("Delegation ID is required")
+		}
+
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const delegation = this.delegations.get(normalizedId)
+		if (delegation && this.isVisibleToSession(delegation, rootSessionID)) {
+			if (isActiveStatus(delegation.status)) {
+				return `Delegation "${delegation.id}" is still ${delegation.status}. Its transcript is written when it finishes.`
+			}
+		}
+
+		const sessionDirs = [{ rootSessionID, dir: await this.getDelegationsDir(rootSessionID) }]
+		if (scope === "project") {
+			for (const sessionDir of await this.getProjectSessionDirs()) {
+				if (sessionDir.rootSessionID !== rootSessionID) sessionDirs.push(sessionDir)
+			}
+		}
+
+		for (const sessionDir of sessionDirs) {
+			const transcriptPath = path.join(sessionDir.dir, `${normalizedId}.transcript.md`)
+			const transcript = await this.readPersistedArtifact(transcriptPath)
+			if (transcript === null) continue
+			return sessionDir.rootSessionID === rootSessionID
+				? transcript
+				: `> From session ${sessionDir.rootSessionID}\n\n${transcript}`
+		}
+
+		throw new Error(
+			`No transcript found for delegation "${normalizedId}".\n\nTranscripts exist only for delegations that finished while transcripts were enabled. Use delegation_read("${normalizedId}") for the result.`,
+		)
+	}
+
+	/**
+	 * Read the validated `<id>.json` object of a structured delegation
+	 */
+	async readStructuredOutput(
+		sessionID: string,
+		id: string,
+		scope: DelegationScope = "session",
+	): Promise<string> {
+		const normalizedId = normalizeId(id)
+		if (!normalizedId) {
+			throw new Error("Delegation ID is required")
+		}
+
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const delegation = this.delegations.get(normalizedId)
+		if (delegation && this.isVisibleToSession(delegation, rootSessionID)) {
+			if (isActiveStatus(delegation.status)) {
+				return `Delegation "${delegation.id}" is still ${delegation.status}. Its structured output is written when it finishes.`
+			}
+		}
+
+		const sessionDirs = [{ rootSessionID, dir: await this.getDelegationsDir(rootSessionID) }]
+		if (scope === "project") {
+			for (const sessionDir of await this.getProjectSessionDirs()) {
+				if (sessionDir.rootSessionID !== rootSessionID) sessionDirs.push(sessionDir)
+			}
+		}
+
+		for (const sessionDir of sessionDirs) {
+			const jsonPath = path.join(sessionDir.dir, `${normalizedId}.json`)
+			const json = await this.readPersistedArtifact(jsonPath)
+			if (json !== null) return json
+		}
+
+		throw new Error(
+			`No structured output found for delegation "${normalizedId}".\n\nIt exists only for delegations started with outputSchema whose answer matched the schema. Use delegation_read("${normalizedId}") for the full result and any validation errors.`,
+		)
+	}
+
+	/**
+	 * Read a group's combined index, blocking until every member is terminal
+	 */
+	private async readGroupOutput(sessionID: string, group: DelegationGroup): Promise<string> {
+		const activeMembers = group.memberIds
+			.map((id) => this.delegations.get(id))
+			.filter(
+				(delegation): delegation is DelegationRecord =>
+					delegation !== undefined && isActiveStatus(delegation.status),
+			)
+
+		if (activeMembers.length > 0) {
+			const remainingMs = Math.max(
+				...activeMembers.map(
+					(delegation) => delegation.timeoutAt.getTime() - Date.now() + this.terminalWaitGraceMs,
+				),
+				this.readPollIntervalMs,
+			)
+			await this.waitForDelegations(sessionID, group.memberIds, "all", remainingMs)
+		}
+
+		await this.handleGroupMemberTerminal(group.id)
+		const index = await this.readPersistedArtifact(group.artifactPath)
+		if (index !== null) return index
+
+		return `Batch "${group.id}" index is not available yet. Members: ${group.memberIds.join(", ")}`
+	}
+
+	/**
+	 * Block until any or all of the given delegations reach a terminal state.
+	 * Returns per-ID status plus artifact pointers, without artifact content.
+	 */
+	async waitForDelegations(
+		sessionID: string,
+		ids: string[],
+		mode: "any" | "all",
+		timeoutMs: number,
+	): Promise<{ outcome: "satisfied" | "timeout"; results: DelegationWaitResult[] }> {
+		const normalizedIds = Array.from(new Set(ids.map(normalizeId).filter(Boolean)))
+		if (normalizedIds.length === 0) {
+			throw new Error("At least one delegation ID is required")
+		}
+
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const visible = normalizedIds
+			.map((id) => this.delegations.get(id))
+			.filter(
+				(delegation): delegation is DelegationRecord =>
+					delegation !== undefined && this.isVisibleToSession(delegation, rootSessionID),
+			)
+		const pending = visible.filter((delegation) => !isTerminalStatus(delegation.status))
+
+		// Not in memory: finished delegations from earlier runs only exist as artifacts
+		const delegationsDir = await this.getDelegationsDir(sessionID)
+		const persisted = new Map<string, DelegationArtifactMetadata | null>()
+		for (const id of normalizedIds) {
+			if (visible.some((delegation) => delegation.id === id)) continue
+			persisted.set(id, await readArtifactMetadata(path.join(delegationsDir, `${id}.md`), id))
+		}
+		const persistedReady = Array.from(persisted.values()).some((metadata) => metadata !== null)
+
+		const alreadySatisfied =
+			mode === "any" ? pending.length < visible.length || persistedReady : pending.length === 0
+		let outcome: "satisfied" | "timeout" = "satisfied"
+
+		if (!alreadySatisfied && pending.length > 0) {
+			await this.debugLog(
+				`waitForDelegations: waiting (${mode}) up to ${timeoutMs}ms for ${pending.map((d) => d.id).join(", ")}`,
+			)
+			// Every waiter shares the same deadline, so the first to settle in "any" mode
+			// is either the first terminal delegation or the shared timeout. The losers are
+			// then aborted so their timers do not outlive the call.
+			const losers = new AbortController()
+			const waits = pending.map((delegation) =>
+				this.waitForTerminal(delegation.id, timeoutMs, losers.signal),
+			)
+			try {
+				const waitResults = mode === "any" ? [await Promise.race(waits)] : await Promise.all(waits)
+				if (waitResults.includes("timeout")) outcome = "timeout"
+			} finally {
+				losers.abort()
+			}
+		}
+
+		const results: DelegationWaitResult[] = []
+		for (const id of normalizedIds) {
+			const delegation = this.delegations.get(id)
+			if (!delegation || !this.isVisibleToSession(delegation, rootSessionID)) {
+				// A persisted artifact still counts as ready
+				const filePath = path.join(delegationsDir, `${id}.md`)
+				const metadata = persisted.get(id) ?? null
+				results.push(
+					metadata
+						? {
+								id,
+								status: metadata.status,
+								title: metadata.title,
+								artifactPath: filePath,
+								ready: true,
+							}
+						: { id, status: "not_found", ready: false },
+				)
+				continue
+			}
+
+			// Persistence runs right after the terminal transition; give it a moment to land
+			const ready =
+				isTerminalStatus(delegation.status) &&
+				(!!delegation.artifact.persistedAt ||
+					(await this.waitForPersistedArtifact(
+						delegation.artifact.filePath,
+						Math.max(this.readPollIntervalMs * 8, 500),
+					)) !== null)
+			results.push({
+				id: delegation.id,
+				status: delegation.status,
+				title: delegation.title,
+				artifactPath: ready ? delegation.artifact.filePath : undefined,
+				ready,
+			})
+		}
+
+		return { outcome, results }
+	}
+
+	/**
+	 * List all delegations for a session
+	 */
+	async listDelegations(
+		sessionID: string,
+		scope: DelegationScope = "session",
+		filters: DelegationListFilters = {},
+	): Promise<DelegationListItem[]> {
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const results: DelegationListItem[] = []
+		// IDs are only unique per root session directory
+		const seen = new Set<string>()
+
+		// Add in-memory delegations in scope
+		for (const delegation of this.delegations.values()) {
+			if (scope === "session" && !this.isVisibleToSession(delegation, rootSessionID)) continue
+
+			seen.add(`${delegation.rootSessionID}/${delegation.id}`)
+			results.push({
+				id: delegation.id,
+				status: delegation.status,
+				title: delegation.title || delegation.id,
+				description:
+					delegation.description ||
+					(isAwaitingStart(delegation.status)
+						? `(${delegation.status})`
+						: delegation.status === "running" || delegation.status === "registered"
+							? delegation.progress.stalledAt
+								? "(stalled)"
+								: "(running)"
+							: "(no description)"),
+				agent: delegation.agent,
+				unread: this.hasUnreadCompletion(delegation),
+				sessionID: delegation.rootSessionID,
+				pinned: delegation.pinned,
+				usage: delegation.usage,
+				tags: delegation.tags,
+				date: (
+					delegation.completedAt ??
+					delegation.startedAt ??
+					delegation.createdAt
+				).toISOString(),
+			})
+		}
+
+		// Check filesystem for persisted delegations
+		const sessionDirs =
+			scope === "project"
+				? await this.getProjectSessionDirs()
+				: [{ rootSessionID, dir: await this.getDelegationsDir(rootSessionID) }]
+
+		for (const sessionDir of sessionDirs) {
+			try {
+				const files = await fs.readdir(sessionDir.dir)
+
+				for (const file of files) {
+					if (isArtifactFileName(file)) {
+						const id = file.replace(".md", "")
+						// Deduplicate: prioritize in-memory status
+						if (!seen.has(`${sessionDir.rootSessionID}/${id}`)) {
+							const metadata = await readArtifactMetadata(path.join(sessionDir.dir, file), id)
+							// Batch indexes share the directory but are not delegations
+							if (metadata?.kind === "group") continue
+							results.push({
+								id,
+								status: metadata?.status ?? "complete",
+								title: metadata?.title || "(loaded from storage)",
+								description: metadata?.description ?? "",
+								agent: metadata?.agent,
+								unread: false,
+								sessionID: sessionDir.rootSessionID,
+								pinned: metadata?.pinned,
+								usage: metadata?.usage,
+								tags: metadata?.tags,
+								date: metadata?.completedAt ?? metadata?.startedAt ?? metadata?.createdAt,
+							})
+						}
+					}
+				}
+			} catch {
+				// Directory may not exist yet
+			}
+		}
+
+		const tag = filters.tag ? normalizeTag(filters.tag) : undefined
+		const filtered = results.filter(
+			(item) =>
+				(!tag || !!item.tags?.includes(tag)) &&
+				(!filters.agent || item.agent === filters.agent) &&
+				(!filters.status || item.status === filters.status),
+		)
+
+		if (scope === "project") {
+			// Most recent research first across sessions
+			filtered.sort(
+				(a, b) => (b.date ?? "").localeCompare(a.date ?? "") || a.id.localeCompare(b.id),
+			)
+		} else {
+			filtered.sort((a, b) => a.id.localeCompare(b.id))
+		}
+		return filtered
+	}
+
+	/**
+	 * Every root-session delegations directory under the project base directory
+	 */
+	private async getProjectSessionDirs(): Promise<{ rootSessionID: string; dir: string }[]> {
+		try {
+			const entries = await fs.readdir(this.baseDir, { withFileTypes: true })
+			return entries
+				.filter((entry) => entry.isDirectory())
+				.map((entry) => ({ rootSessionID: entry.name, dir: path.join(this.baseDir, entry.name) }))
+		} catch {
+			// Base directory may not exist yet
+			return []
+		}
+	}
+
+	/**
+	 * Find a delegation's artifact in another root session of the project. The newest
+	 * match wins if the ID was reused; the output is prefixed with its origin.
+	 */
+	private async readProjectArtifact(
+		id: string,
+		excludeRootSessionID: string,
+	): Promise<string | null> {
+		let newest: { content: string; rootSessionID: string; date?: string } | undefined
+
+		for (const sessionDir of await this.getProjectSessionDirs()) {
+			if (sessionDir.rootSessionID === excludeRootSessionID) continue
+
+			const artifactPath = path.join(sessionDir.dir, `${id}.md`)
+			const content = await this.readPersistedArtifact(artifactPath)
+			if (content === null) continue
+
+			const metadata = await readArtifactMetadata(artifactPath, id)
+			const date = metadata?.completedAt ?? metadata?.startedAt ?? metadata?.createdAt
+			if (!newest || (date ?? "") > (newest.date ?? "")) {
+				newest = { content, rootSessionID: sessionDir.rootSessionID, date }
+			}
+		}
+
+		if (!newest) return null
+		return `> From session ${newest.rootSessionID}${newest.date ? ` (${newest.date})` : ""}\n\n${newest.content}`
+	}
+
+	/**
+	 * Full-text search across persisted artifacts for a session, ranked by relevance
+	 */
+	async searchDelegations(
+		sessionID: string,
+		query: string,
+		filters: DelegationSearchFilters = {},
+	): Promise<DelegationSearchResult[]> {
+		const terms = tokenizeSearchQuery(query)
+		if (terms.length === 0) {
+			throw new Error("Search query must contain at least one word")
+		}
+
+		const dir = await this.getDelegationsDir(sessionID)
+		let files: string[]
+		try {
+			files = (await fs.readdir(dir)).filter(isArtifactFileName)
+		} catch {
+			// Directory may not exist yet
+			return []
+		}
+
+		const results: DelegationSearchResult[] = []
+		for (const file of files) {
+			const id = file.replace(".md", "")
+			const filePath = path.join(dir, file)
+			const content = await this.readPersistedArtifact(filePath)
+			if (content === null) continue
+
+			const metadata = await readArtifactMetadata(filePath, id)
+			if (metadata?.kind === "group") continue
+			const status = metadata?.status ?? "complete"
+			const date = metadata?.completedAt ?? metadata?.createdAt ?? metadata?.startedAt
+
+			if (filters.agent && metadata?.agent !== filters.agent) continue
+			if (filters.status && status !== filters.status) continue
+			if (filters.since || filters.until) {
+				const timestamp = date ? new Date(date).getTime() : Number.NaN
+				if (Number.isNaN(timestamp)) continue
+				if (filters.since && timestamp < filters.since.getTime()) continue
+				if (filters.until && timestamp > filters.until.getTime()) continue
+			}
+
+			const body = getArtifactBody(content)
+			const score = scoreSearchDocument(query, terms, {
+				title: metadata?.title ?? "",
+				description: metadata?.description ?? "",
+				prompt: metadata?.prompt ?? "",
+				body,
+			})
+			if (score === 0) continue
+
+			results.push({
+				id,
+				status,
+				title: metadata?.title,
+				description: metadata?.description,
+				agent: metadata?.agent,
+				date,
+				score,
+				snippets: extractSearchSnippets(body, terms),
+			})
+		}
+
+		results.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+		return results.slice(0, filters.limit ?? SEARCH_DEFAULT_LIMIT)
+	}
+
+	/**
+	 * Delete a delegation by id (cancels if running, removes from storage)
+	 * Used internally for cleanup (timeout, etc.)
+	 */
+	async deleteDelegation(sessionID: string, id: string): Promise<boolean> {
+		const normalizedId = normalizeId(id)
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const delegation = this.delegations.get(normalizedId)
+
+		// IDs are only unique per root session; leave another session's delegation alone
+		if (delegation && delegation.rootSessionID === rootSessionID) {
+			if (isActiveStatus(delegation.status)) {
+				try {
+					await this.client.session.delete({
+						path: { id: delegation.sessionID },
+					})
+				} catch {
+					// Session may already be deleted
+				}
+				this.markTerminal(delegation.id, "cancelled", "Delegation deleted by cleanup")
+				this.releaseDependents(delegation.id)
+			}
+			if (delegation.worktree && !delegation.worktree.removedAt) {
+				await this.removeWorktree(delegation.worktree)
+			}
+
+			this.clearTimeoutTimer(delegation.id)
+			this.clearStallTimer(delegation.id)
+			this.seenProgressParts.delete(delegation.id)
+			this.terminalWaiters.delete(delegation.id)
+			this.delegationsBySession.delete(delegation.sessionID)
+			this.delegations.delete(delegation.id)
+			await this.persistState()
+		}
+
+		// Remove from filesystem
+		try {
+			const dir = await this.getDelegationsDir(sessionID)
+			const filePath = path.join(dir, `${normalizedId}.md`)
+			await fs.unlink(filePath)
+			for (const extension of ARTIFACT_SIDECAR_EXTENSIONS) {
+				await fs.rm(getArtifactSidecarPath(filePath, extension), { force: true })
+			}
+			return true
+		} catch {
+			return false
+		}
+	}
+
+	/**
+	 * Pin or unpin a delegation's artifact. Pinned artifacts are never pruned.
+	 */
+	async setPinned(sessionID: string, id: string, pinned: boolean): Promise<boolean> {
+		const normalizedId = normalizeId(id)
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const delegation = this.delegations.get(normalizedId)
+
+		if (delegation && this.isVisibleToSession(delegation, rootSessionID)) {
+			delegation.pinned = pinned
+			if (delegation.artifact.persistedAt) await this.writeArtifactMetadata(delegation)
+			await this.persistState()
+			return true
+		}
+
+		const artifactPath = path.join(await this.getDelegationsDir(sessionID), `${normalizedId}.md`)
+		const metadata = await readArtifactMetadata(artifactPath, normalizedId)
+		if (!metadata) return false
+
+		await fs.writeFile(
+			getArtifactSidecarPath(artifactPath, ".meta.json"),
+			JSON.stringify({ ...metadata, pinned: pinned || undefined }, null, 2),
+			"utf8",
+		)
+		return true
+	}
+
+	/**
+	 * Apply the retention policy across every root session of the project.
+	 * Oldest artifacts go first: past max age, then until count and total size fit.
+	 * Deletions go through deleteDelegation; a dry run only reports them.
+	 */
+	async pruneDelegations(options: { dryRun?: boolean } = {}): Promise<PruneResult> {
+		const dryRun = options.dryRun ?? false
+		return await this.pruneMutex.runExclusive(async () => {
+			const policy = this.retentionPolicy
+			const now = Date.now()
+			const candidates: Omit<PrunedDelegation, "reason">[] = []
+			let exemptCount = 0
+			let exemptBytes = 0
+
+			for (const sessionDir of await this.getProjectSessionDirs()) {
+				let files: string[]
+				try {
+					files = (await fs.readdir(sessionDir.dir)).filter(isArtifactFileName)
+				} catch {
+					continue
+				}
+
+				for (const file of files) {
+					const id = file.replace(".md", "")
+					const artifactPath = path.join(sessionDir.dir, file)
+					const metadata = await readArtifactMetadata(artifactPath, id)
+					const bytes = await this.getArtifactBytes(artifactPath)
+					const stat = await fs.stat(artifactPath).catch(() => null)
+					const date =
+						metadata?.completedAt ?? metadata?.createdAt ?? stat?.mtime.toISOString() ?? ""
+
+					if (this.isExemptFromPruning(sessionDir.rootSessionID, id, metadata)) {
+						exemptCount += 1
+						exemptBytes += bytes
+						continue
+					}
+					candidates.push({ id, rootSessionID: sessionDir.rootSessionID, bytes, date })
+				}
+			}
+
+			// Oldest first, so every limit removes the least recent research
+			candidates.sort((a, b) => a.date.localeCompare(b.date))
+
+			const removed: PrunedDelegation[] = []
+			let keptCount = candidates.length + exemptCount
+			let keptBytes = candidates.reduce((total, c) => total + c.bytes, exemptBytes)
+
+			for (const candidate of candidates) {
+				const timestamp = new Date(candidate.date).getTime()
+				const reason: PrunedDelegation["reason"] | undefined =
+					policy.maxAgeMs > 0 && timestamp < now - policy.maxAgeMs
+						? "age"
+						: policy.maxCount > 0 && keptCount > policy.maxCount
+							? "count"
+							: policy.maxTotalBytes > 0 && keptBytes > policy.maxTotalBytes
+								? "size"
+								: undefined
+				if (!reason) continue
+
+				if (!dryRun) {
+					await this.deleteDelegation(candidate.rootSessionID, candidate.id)
+				}
+				removed.push({ ...candidate, reason })
+				keptCount -= 1
+				keptBytes -= candidate.bytes
+			}
+
+			if (!dryRun) {
+				await this.removeEmptySessionDirs()
+			}
+			const debugLogRotated = await this.rotateDebugLog(dryRun)
+
+			if (removed.length > 0) {
+				await this.debugLog(
+					`pruneDelegations${dryRun ? " (dry run)" : ""}: ${removed.length} artifact(s) removed, ${keptCount} kept`,
+				)
+			}
+
+			return { dryRun, removed, keptCount, keptBytes, exemptCount, debugLogRotated }
+		})
+	}
+
+	/**
+	 * Run the retention policy now and then on its interval
+	 */
+	startRetentionSchedule(): void {
+		if (this.retentionTimer) return
+
+		const run = () => {
+			void this.pruneDelegations().catch((error: unknown) => {
+				this.log.warn(
+					`Retention pruning failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+				)
+			})
+		}
+
+		run()
+		if (this.retentionPolicy.intervalMs > 0) {
+			this.retentionTimer = setInterval(run, this.retentionPolicy.intervalMs)
+			// Never keep the process alive just to prune
+			this.retentionTimer.unref?.()
+		}
+	}
+
+	private isExemptFromPruning(
+		rootSessionID: string,
+		id: string,
+		metadata: DelegationArtifactMetadata | null,
+	): boolean {
+		const delegation = this.delegations.get(id)
+		if (delegation && delegation.rootSessionID === rootSessionID) {
+			return (
+				!!delegation.pinned ||
+				isActiveStatus(delegation.status) ||
+				!delegation.notification.terminalNotifiedAt ||
+				this.hasUnreadCompletion(delegation)
+			)
+		}
+
+		if (metadata?.pinned) return true
+		// Group indexes carry no read tracking of their own
+		if (metadata?.kind === "group") return false
+		return metadata?.retrievalCount === 0
+	}
+
+	private async getArtifactBytes(artifactPath: string): Promise<number> {
+		let bytes = 0
+		const sidecars = ARTIFACT_SIDECAR_EXTENSIONS.map((extension) =>
+			getArtifactSidecarPath(artifactPath, extension),
+		)
+		for (const filePath of [artifactPath, ...sidecars]) {
+			const stat = await fs.stat(filePath).catch(() => null)
+			bytes += stat?.size ?? 0
+		}
+		return bytes
+	}
+
+	private async removeEmptySessionDirs(): Promise<void> {
+		for (const sessionDir of await this.getProjectSessionDirs()) {
+			const entries = await fs.readdir(sessionDir.dir).catch(() => null)
+			if (entries?.length === 0) {
+				await fs.rmdir(sessionDir.dir).catch(() => {})
+			}
+		}
+	}
+
+	/**
+	 * Rotate the debug log to `.1` once it outgrows the retention limit
+	 */
+	private async rotateDebugLog(dryRun: boolean): Promise<boolean> {
+		if (this.retentionPolicy.maxDebugLogBytes <= 0) return false
+
+		const debugFile = path.join(this.baseDir, DEBUG_LOG_FILE_NAME)
+		const stat = await fs.stat(debugFile).catch(() => null)
+		if (!stat || stat.size <= this.retentionPolicy.maxDebugLogBytes) return false
+
+		if (!dryRun) {
+			await fs.rename(debugFile, `${debugFile}.1`).catch(() => {})
+		}
+		return true
+	}
+
+	/**
+	 * Record a tool call or step from a child session part. Each part is counted once,
+	 * however many times it is updated.
+	 */
+	private markPartProgress(id: string, part: Part): DelegationRecord | undefined {
+		return this.updateDelegation(id, (delegation, now) => {
+			if (isTerminalStatus(delegation.status)) return
+
+			delegation.progress.lastUpdateAt = now
+			delegation.progress.lastHeartbeatAt = now
+			this.clearStalled(delegation)
+
+			let seen = this.seenProgressParts.get(id)
+			if (!seen) {
+				seen = new Set()
+				this.seenProgressParts.set(id, seen)
+			}
+			if (seen.has(part.id)) return
+			seen.add(part.id)
+
+			if (part.type === "tool") {
+				const byName = delegation.progress.toolCallsByName
+				byName[part.tool] = (byName[part.tool] ?? 0) + 1
+				delegation.progress.toolCalls += 1
+				delegation.progress.lastTool = part.tool
+				delegation.progress.lastToolAt = now
+			} else if (part.type === "step-start") {
+				delegation.progress.currentStep += 1
+			}
+		})
+	}
+
+	/**
+	 * Activity after a stall: drop the flag and re-arm the watchdog
+	 */
+	private clearStalled(delegation: DelegationRecord): void {
+		if (!delegation.progress.stalledAt) return
+		delegation.progress.stalledAt = undefined
+		this.scheduleStallCheck(delegation.id)
+		void this.debugLog(`Delegation ${delegation.id} resumed activity after stall`)
+	}
+
+	/**
+	 * Find a delegation by its session ID
+	 */
+	findBySession(sessionID: string): DelegationRecord | undefined {
+		return this.getDelegationBySession(sessionID)
+	}
+
+	/**
+	 * Handle message events for progress tracking
+	 */
+	handleMessageEvent(sessionID: string, messageText?: string): void {
+		const delegation = this.findBySession(sessionID)
+		if (!delegation) return
+		this.markProgress(delegation.id, messageText)
+	}
+
+	/**
+	 * Handle message part events for tool-call and step tracking
+	 */
+	handlePartEvent(part: Part): void {
+		if (part.type !== "tool" && part.type !== "step-start") return
+		const delegation = this.findBySession(part.sessionID)
+		if (!delegation) return
+		this.markPartProgress(delegation.id, part)
+	}
+
+	/**
+	 * Look up a delegation's live record for a status check (never blocks)
+	 */
+	async getDelegationStatus(sessionID: string, id: string): Promise<DelegationRecord> {
+		const normalizedId = normalizeId(id)
+		if (!normalizedId) {
+			throw new Error("Delegation ID is required")
+		}
+
+		const rootSessionID = await this.getRootSessionID(sessionID)
+		const delegation = this.delegations.get(normalizedId)
+		if (!delegation || !this.isVisibleToSession(delegation, rootSessionID)) {
+			throw new Error(
+				`Delegation "${normalizedId}" not found in this session.\n\nFinished delegations from earlier sessions can be read with delegation_read().`,
+			)
+		}
+
+		return delegation
+	}
+
+	/**
+	 * Get waiting, queued and running counts of pending delegations for a parent session
+	 */
+	getPendingCounts(parentSessionID: string): PendingCounts {
+		const counts: PendingCounts = { waiting: 0, queued: 0, running: 0 }
+		for (const id of this.pendingByParent.get(parentSessionID) ?? []) {
+			const delegation = this.delegations.get(id)
+			if (!delegation || !isActiveStatus(delegation.status)) continue
+			if (delegation.status === "waiting") counts.waiting += 1
+			else if (delegation.status === "queued") counts.queued += 1
+			else counts.running += 1
+		}
+		return counts
+	}
+
+	/**
+	 * Get count of pending delegations for a parent session
+	 */
+	getPendingCount(parentSessionID: string): number {
+		const pendingSet = this.pendingByParent.get(parentSessionID)
+		if (!pendingSet) return 0
+		return Array.from(pendingSet).filter((id) => {
+			const delegation = this.delegations.get(id)
+			return delegation ? isActiveStatus(delegation.status) : false
+		}).length
+	}
+
+	/**
+	 * Get all currently running delegations (in-memory only)
+	 */
+	getRunningDelegations(rootSessionID?: string): DelegationRecord[] {
+		return Array.from(this.delegations.values()).filter((delegation) => {
+			if (rootSessionID && delegation.rootSessionID !== rootSessionID) return false
+			return isActiveStatus(delegation.status)
+		})
+	}
+
+	getUnreadCompletedDelegations(rootSessionID: string, limit = 10): DelegationRecord[] {
+		return Array.from(this.delegations.values())
+			.filter((delegation) => delegation.rootSessionID === rootSessionID)
+			.filter((delegation) => this.hasUnreadCompletion(delegation))
+			.sort((a, b) => {
+				const aTime = a.completedAt?.getTime() || 0
+				const bTime = b.completedAt?.getTime() || 0
+				return bTime - aTime
+			})
+			.slice(0, limit)
+	}
+
+	/**
+	 * Get recent completed delegations for compaction injection
+	 */
+	async getRecentCompletedDelegations(
+		sessionID: string,
+		limit: number = 10,
+	): Promise<DelegationListItem[]> {
+		const all = await this.listDelegations(sessionID)
+		return all.filter((d) => isTerminalStatus(d.status)).slice(-limit)
+	}
+
+	private getStateFilePath(): string {
+		return path.join(this.baseDir, `delegations-state.${this.stateOwner.instanceId}.json`)
+	}
+
+	/**
+	 * Persist the in-flight registry so delegations survive an OpenCode restart.
+	 * Only active delegations and terminal ones still awaiting notification are kept.
+	 * Each instance writes its own file, so OpenCode processes sharing a project never
+	 * overwrite each other's state.
+	 */
+	private async persistState(): Promise<void> {
+		await this.stateMutex.runExclusive(async () => {
+			const state: PersistedDelegationState = {
+				version: STATE_FILE_VERSION,
+				owner: this.stateOwner,
+				delegations: Array.from(this.delegations.values())
+					.filter(
+						(delegation) =>
+							!isTerminalStatus(delegation.status) || !delegation.notification.terminalNotifiedAt,
+					)
+					// Prompts can quote credentials; a restored delegation that has not started
+					// yet sends the redacted prompt
+					.map(({ result: _result, ...record }) => ({
+						...record,
+						prompt: this.redact(record.prompt).text,
+						turns: record.turns.map((turn) => ({ ...turn, prompt: this.redact(turn.prompt).text })),
+					})),
+				groups: Array.from(this.groups.values()).filter((group) => !group.notifiedAt),
+			}
+
+			const statePath = this.getStateFilePath()
+			const tempPath = `${statePath}.tmp`
+			try {
+				if (state.delegations.length === 0 && state.groups?.length === 0) {
+					await fs.rm(statePath, { force: true })
+					return
+				}
+				await fs.writeFile(tempPath, JSON.stringify(state, null, 2), "utf8")
+				await fs.rename(tempPath, statePath)
+			} catch (error) {
+				await this.debugLog(
+					`persistState failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+				)
+			}
+		})
+	}
+
+	/**
+	 * Restore a persisted record into the in-memory registry.
+	 */
+	private restoreDelegation(record: DelegationRecord): void {
+		this.delegations.set(record.id, record)
+		this.delegationsBySession.set(record.sessionID, record.id)
+		this.createTerminalWaiter(record.id)
+
+		const parentState = this.getParentNotificationState(record.parentSessionID)
+		if (record.notificationCycle > parentState.allCompleteCycle) {
+			parentState.allCompleteCycle = record.notificationCycle
+			parentState.allCompleteCycleToken = record.notificationCycleToken
+		}
+
+		if (isActiveStatus(record.status)) {
+			if (!this.pendingByParent.has(record.parentSessionID)) {
+				this.pendingByParent.set(record.parentSessionID, new Set())
+			}
+			this.pendingByParent.get(record.parentSessionID)?.add(record.id)
+		}
+	}
+
+	/**
+	 * Take over a state file left by an instance that is no longer running. Files whose
+	 * owner process is alive are skipped; the rename ensures only one starting instance
+	 * adopts a file. Legacy files without an owner are adopted like orphaned ones.
+	 */
+	private async claimStateFile(
+		filePath: string,
+	): Promise<ReturnType<typeof parsePersistedDelegationState> | undefined> {
+		const raw = await fs.readFile(filePath, "utf8").catch(() => null)
+		if (raw === null) return undefined
+
+		try {
+			const { owner } = parsePersistedDelegationState(raw)
+			if (owner && owner.instanceId !== this.stateOwner.instanceId && isProcessAlive(owner.pid)) {
+				return undefined
+			}
+
+			const claimedPath = `${filePath}.${this.stateOwner.instanceId}.claimed`
+			const claimed = await fs.rename(filePath, claimedPath).then(
+				() => true,
+				() => false,
+			)
+			if (!claimed) return undefined
+
+			const state = parsePersistedDelegationState(await fs.readFile(claimedPath, "utf8"))
+			await fs.rm(claimedPath, { force: true })
+			return state
+		} catch (error) {
+			this.log.warn(
+				`Ignoring unreadable delegation state file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+			return undefined
+		}
 	}
 
 	/**
-	 * Get count of pending delegations for a parent session
+	 * Reload in-flight delegations after an OpenCode restart.
+	 * Reattaches to child sessions that are still busy, finalizes the ones that went
+	 * idle while the plugin was down, and errors out those whose session is gone.
+	 * Only state files of instances that have stopped are adopted.
 	 */
-	getPendingCount(parentSessionID: string): number {
-		const pendingSet = this.pendingByParent.get(parentSessionID)
-		if (!pendingSet) return 0
-		return Array.from(pendingSet).filter((id) => {
-			const delegation = this.delegations.get(id)
-			return delegation ? isActiveStatus(delegation.status) : false
-		}).length
+	async rehydrate(): Promise<void> {
+		const files = await fs.readdir(this.baseDir).catch(() => [] as string[])
+
+		const restored: DelegationRecord[] = []
+		const restoredGroups: DelegationGroup[] = []
+		for (const file of files.filter((name) => STATE_FILE_PATTERN.test(name))) {
+			const state = await this.claimStateFile(path.join(this.baseDir, file))
+			if (!state) continue
+
+			for (const record of state.delegations) {
+				if (this.delegations.has(record.id)) continue
+				this.restoreDelegation(record)
+				restored.push(record)
+			}
+			for (const group of state.groups) {
+				if (this.groups.has(group.id)) continue
+				this.groups.set(group.id, group)
+				restoredGroups.push(group)
+			}
+		}
+		if (restored.length === 0 && restoredGroups.length === 0) return
+
+		await this.debugLog(`rehydrate: restored ${restored.length} delegation(s) from state files`)
+		// Adopted records now live in this instance's own state file
+		await this.persistState()
+
+		const sessionStatuses = await this.client.session
+			.status()
+			.then((result) => result.data ?? {})
+			.catch(() => ({}) as Record<string, { type: string }>)
+
+		for (const delegation of restored) {
+			// Terminal but never delivered: only the notification is missing
+			if (isTerminalStatus(delegation.status)) {
+				void this.notifyParent(delegation.id).then(() => this.persistState())
+				continue
+			}
+
+			const sessionExists = await this.client.session
+				.get({ path: { id: delegation.sessionID } })
+				.then((result) => Boolean(result.data?.id))
+				.catch(() => false)
+
+			if (!sessionExists) {
+				void this.finalizeDelegation(
+					delegation.id,
+					"error",
+					`Child session ${delegation.sessionID} no longer exists after OpenCode restart`,
+				)
+				continue
+			}
+
+			// Not started yet; queue is drained and dependencies re-checked below
+			if (isAwaitingStart(delegation.status)) continue
+
+			const sessionStatus = sessionStatuses[delegation.sessionID]?.type ?? "idle"
+			if (sessionStatus === "idle") {
+				void this.finalizeDelegation(delegation.id, "complete")
+				continue
+			}
+
+			if (delegation.timeoutAt.getTime() <= Date.now()) {
+				void this.handleTimeout(delegation.id)
+				continue
+			}
+
+			await this.debugLog(`rehydrate: reattached to running delegation ${delegation.id}`)
+			this.scheduleTimeout(delegation.id)
+			if (!delegation.progress.stalledAt) this.scheduleStallCheck(delegation.id)
+		}
+
+		this.drainQueue()
+		for (const delegation of restored) {
+			if (delegation.status === "waiting") void this.resolveDependencies(delegation.id)
+		}
+
+		// Groups whose members all finished before the restart only lack their notification
+		for (const group of restoredGroups) {
+			void this.handleGroupMemberTerminal(group.id)
+		}
 	}
 
 	/**
-	 * Get all currently running delegations (in-memory only)
+	 * Log debug messages
 	 */
-	getRunningDelegations(rootSessionID?: string): DelegationRecord[] {
-		return Array.from(this.delegations.values()).filter((delegation) => {
-			if (rootSessionID && delegation.rootSessionID !== rootSessionID) return false
-			return isActiveStatus(delegation.status)
-		})
+	async debugLog(msg: string): Promise<void> {
+		// Guard: Debug logging disabled via config
+		if (!this.debug) return
+
+		const timestamp = new Date().toISOString()
+		const line = `${timestamp}: ${msg}\n`
+		const debugFile = path.join(this.baseDir, DEBUG_LOG_FILE_NAME)
+
+		try {
+			await fs.appendFile(debugFile, line, "utf8")
+		} catch {
+			// Ignore errors, try to ensure dir once if it fails?
+			// Simpler to just ignore for debug logs
+		}
+	}
+}
+
+// ==========================================
+// TOOL CREATORS
+// ==========================================
+
+interface DelegateArgs {
+	prompt: string
+	agent: string
+	timeout?: number
+	priority?: number
+	dependsOn?: string[]
+	onDependencyFailure?: DependencyFailurePolicy
+	isolation?: DelegationIsolation
+	model?: string
+	provider?: string
+	outputSchema?: Record<string, unknown>
+}
+
+function createDelegate(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `Delegate a task to an agent. Returns immediately with a readable ID.
+
+Use this for:
+- Research tasks (will be auto-saved)
+- Parallel work that can run in background
+- Any task where you want persistent, retrievable output
+
+On completion, a notification will arrive with the ID and terminal summary.
+Use \`delegation_read\` with the ID to retrieve full persisted output (including after compaction).
+
+With isolation: "worktree", write-capable agents run in a throwaway git worktree of the project's HEAD.
+Their changes come back as a patch artifact and are only applied to the checkout by \`delegation_apply\`.
+
+With outputSchema, the sub-agent must end its answer with JSON matching the schema. Mismatches are sent back
+for repair; the validated object is saved as <id>.json and read with delegation_read(id, view: "json").`,
+		args: {
+			prompt: tool.schema
+				.string()
+				.describe("The full detailed prompt for the agent. Must be in English."),
+			agent: tool.schema
+				.string()
+				.describe(
+					'Agent to delegate to. Must be a read-only sub-agent (edit/write/bash denied), such as "researcher" or "explore", unless isolation is "worktree".',
+				),
+			timeout: tool.schema
+				.number()
+				.positive()
+				.max(MAX_TIMEOUT_SECONDS)
+				.optional()
+				.describe(
+					"Optional timeout in seconds. Defaults to the agent's configured delegation_timeout, or 15 minutes.",
+				),
+			priority: tool.schema
+				.number()
+				.int()
+				.optional()
+				.describe(
+					"Optional queue priority when concurrency limits are reached (higher starts first, default 0)",
+				),
+			dependsOn: tool.schema
+				.array(tool.schema.string())
+				.optional()
+				.describe(
+					"Optional delegation IDs that must finish first. Their results are prepended to this prompt automatically.",
+				),
+			onDependencyFailure: tool.schema
+				.enum(["fail", "continue"])
+				.optional()
+				.describe(
+					'What to do if a dependency does not complete: "fail" (default) skips this delegation with an error, "continue" runs it anyway',
+				),
+			isolation: tool.schema
+				.enum(["worktree"])
+				.optional()
+				.describe(
+					'Set to "worktree" to run a write-capable agent in a throwaway git worktree. Its changes are returned as a patch, never written to the checkout.',
+				),
+			model: tool.schema
+				.string()
+				.optional()
+				.describe(
+					'Optional model override as "provider/model" (e.g. a small model for surveys, a larger one for hard analysis). Defaults to the agent\'s model.',
+				),
+			provider: tool.schema
+				.string()
+				.optional()
+				.describe(
+					"Optional provider ID for the model override; alone, uses the provider's default model",
+				),
+			outputSchema: tool.schema
+				.record(tool.schema.string(), tool.schema.unknown())
+				.optional()
+				.describe(
+					"Optional JSON Schema the result must match, for results that feed into code instead of being read. Supports type, properties, required, additionalProperties, items, enum, const, anyOf/oneOf/allOf, pattern and length/range bounds; schemas using other keywords ($ref, patternProperties, ...) are rejected",
+				),
+		},
+		async execute(args: DelegateArgs, toolCtx: ToolContext): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegate requires sessionID. This is a system error."
+			}
+			if (!toolCtx?.messageID) {
+				return "❌ delegate requires messageID. This is a system error."
+			}
+
+			try {
+				const delegation = await manager.delegate({
+					parentSessionID: toolCtx.sessionID,
+					parentMessageID: toolCtx.messageID,
+					parentAgent: toolCtx.agent,
+					prompt: args.prompt,
+					agent: args.agent,
+					timeoutMs: args.timeout !== undefined ? args.timeout * 1000 : undefined,
+					priority: args.priority,
+					dependsOn: args.dependsOn,
+					dependencyFailurePolicy: args.onDependencyFailure,
+					isolation: args.isolation,
+					model: args.model,
+					provider: args.provider,
+					outputSchema: args.outputSchema,
+				})
+
+				// Get total active count for this parent session
+				const pendingSet = manager.getPendingCount(toolCtx.sessionID)
+				const totalActive = pendingSet
+				const pendingCounts = manager.getPendingCounts(toolCtx.sessionID)
+				const queuePosition = manager.getQueuePosition(delegation.id)
+
+				let response =
+					delegation.status === "waiting"
+						? `Delegation waiting: ${delegation.id} (on ${delegation.dependsOn.join(", ")})`
+						: queuePosition !== undefined
+							? `Delegation queued: ${delegation.id} (position ${queuePosition}, concurrency limit reached)`
+							: `Delegation started: ${delegation.id}`
+				response += `\nAgent: ${args.agent}\nTimeout: ${delegation.maxRunTimeMs / 1000}s`
+				if (delegation.model) {
+					response += `\nModel: ${delegation.model.providerID}/${delegation.model.modelID}`
+				}
+				if (delegation.outputSchema) {
+					response += "\nStructured output: validated against outputSchema"
+				}
+				if (delegation.worktree) {
+					response += `\nWorktree: ${delegation.worktree.path} (base ${delegation.worktree.baseCommit.slice(0, 12)})`
+				}
+				if (totalActive > 1) {
+					response += `\n\n${totalActive} delegations now active (${pendingCounts.running} running, ${pendingCounts.queued} queued, ${pendingCounts.waiting} waiting).`
+				}
+				response += `\nYou WILL be notified when ${totalActive > 1 ? "ALL complete" : "complete"}. Do NOT poll.`
+
+				return response
+			} catch (error) {
+				// Return validation errors as guidance, not exceptions
+				return `❌ Delegation failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
+		},
+	})
+}
+
+function createDelegationRead(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `Read the output of a delegation by its ID.
+Use this to retrieve results from delegated tasks if the inline notification was lost during compaction.
+Use scope "project" to read research from earlier sessions found via delegation_list.
+Use view "transcript" to audit how a result was reached: every message, tool call (truncated) and reasoning step.
+Use view "json" for the validated object of a delegation started with outputSchema.
+Use mode "summary" when you only need the key findings: a cached small_model digest of the result.
+Outputs over ${READ_PAGE_THRESHOLD_BYTES / 1024} KB are paged with a table of contents: use offset/limit to continue,
+or section to read one heading.`,
+		args: {
+			id: tool.schema.string().describe("The delegation ID (e.g., 'elegant-blue-tiger')"),
+			scope: tool.schema
+				.enum(["session", "project"])
+				.optional()
+				.describe('Where to look: "session" (default) or every past session in this project'),
+			view: tool.schema
+				.enum(["result", "transcript", "patch", "json"])
+				.optional()
+				.describe(
+					'"result" (default) for the final output, "transcript" for the full sub-agent conversation, "patch" for a worktree delegation\'s diff, "json" for a structured delegation\'s validated object',
+				),
+			offset: tool.schema
+				.number()
+				.int()
+				.nonnegative()
+				.optional()
+				.describe('0-based line (or byte, with unit: "bytes") to start reading from'),
+			limit: tool.schema
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe(
+					`Maximum lines (or bytes) to return. Large outputs default to ${READ_DEFAULT_PAGE_LINES} lines`,
+				),
+			unit: tool.schema
+				.enum(["lines", "bytes"])
+				.optional()
+				.describe('Unit for offset and limit: "lines" (default) or "bytes"'),
+			section: tool.schema
+				.string()
+				.optional()
+				.describe('Markdown heading to read, with its subsections (e.g. "Turn 2")'),
+			mode: tool.schema
+				.enum(["full", "summary"])
+				.optional()
+				.describe('"full" (default) returns the result as written, "summary" a condensed version'),
+			maxTokens: tool.schema
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe(
+					`Token budget for mode "summary" (default ${DEFAULT_SUMMARY_MAX_TOKENS}, ${SUMMARY_MIN_TOKENS}-${SUMMARY_MAX_TOKENS})`,
+				),
+		},
+		async execute(
+			args: {
+				id: string
+				scope?: DelegationScope
+				view?: "result" | "transcript" | "patch" | "json"
+				mode?: "full" | "summary"
+				maxTokens?: number
+			} & ArtifactPageOptions,
+			toolCtx: ToolContext,
+		): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegation_read requires sessionID. This is a system error."
+			}
+			if (args.mode === "summary" && args.view && args.view !== "result") {
+				return `❌ mode "summary" only applies to view "result", not "${args.view}".`
+			}
+
+			const content =
+				args.mode === "summary"
+					? await manager.readSummary(toolCtx.sessionID, args.id, args.scope, args.maxTokens)
+					: args.view === "transcript"
+						? await manager.readTranscript(toolCtx.sessionID, args.id, args.scope)
+						: args.view === "patch"
+							? await manager.readPatch(toolCtx.sessionID, args.id)
+							: args.view === "json"
+								? await manager.readStructuredOutput(toolCtx.sessionID, args.id, args.scope)
+								: await manager.readOutput(toolCtx.sessionID, args.id, args.scope)
+
+			// Repeat every argument but offset in the "more available" hint
+			const hintArgs = [
+				args.scope ? `scope: "${args.scope}"` : "",
+				args.view ? `view: "${args.view}"` : "",
+				args.mode ? `mode: "${args.mode}"` : "",
+				args.maxTokens !== undefined ? `maxTokens: ${args.maxTokens}` : "",
+				args.section !== undefined ? `section: ${JSON.stringify(args.section)}` : "",
+				args.unit ? `unit: "${args.unit}"` : "",
+				args.limit !== undefined ? `limit: ${args.limit}` : "",
+			].filter((arg) => arg.length > 0)
+			return paginateArtifact(
+				content,
+				{ offset: args.offset, limit: args.limit, unit: args.unit, section: args.section },
+				(nextOffset) =>
+					`delegation_read(${[`"${args.id}"`, ...hintArgs, `offset: ${nextOffset}`].join(", ")})`,
+			)
+		},
+	})
+}
+
+function createDelegationList(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `List all delegations for the current session.
+Shows both running and completed delegations.
+Use scope "project" to also see research from earlier sessions in this project before delegating again.
+Filter by topic tag, agent or status to browse large histories.`,
+		args: {
+			scope: tool.schema
+				.enum(["session", "project"])
+				.optional()
+				.describe(
+					'Which delegations to list: "session" (default) or every past session in this project',
+				),
+			tag: tool.schema
+				.string()
+				.optional()
+				.describe('Only include delegations with this topic tag (e.g. "oauth")'),
+			agent: tool.schema.string().optional().describe("Only include delegations run by this agent"),
+			status: tool.schema
+				.enum([
+					"registered",
+					"waiting",
+					"queued",
+					"running",
+					"complete",
+					"error",
+					"cancelled",
+					"timeout",
+				])
+				.optional()
+				.describe("Only include delegations with this status"),
+		},
+		async execute(
+			args: { scope?: DelegationScope } & DelegationListFilters,
+			toolCtx: ToolContext,
+		): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegation_list requires sessionID. This is a system error."
+			}
+
+			const scope = args.scope ?? "session"
+			const delegations = await manager.listDelegations(toolCtx.sessionID, scope, {
+				tag: args.tag,
+				agent: args.agent,
+				status: args.status,
+			})
+
+			if (delegations.length === 0) {
+				if (args.tag || args.agent || args.status) return "No delegations match the filters."
+				return scope === "project"
+					? "No delegations found in this project."
+					: "No delegations found for this session."
+			}
+
+			const lines = delegations.map((d) => {
+				const titlePart = d.title ? ` | ${d.title}` : ""
+				const unreadPart = d.unread ? " [unread]" : ""
+				const pinnedPart = d.pinned ? " [pinned]" : ""
+				const originPart =
+					scope === "project" ? ` (session ${d.sessionID}${d.date ? `, ${d.date}` : ""})` : ""
+				const descPart = d.description ? `\n  → ${d.description}` : ""
+				const tagsPart = d.tags?.length ? `\n  Tags: ${d.tags.join(", ")}` : ""
+				const usagePart = d.usage ? `\n  Usage: ${formatUsage(d.usage)}` : ""
+				return `- **${d.id}**${titlePart} [${d.status}]${unreadPart}${pinnedPart}${originPart}${descPart}${tagsPart}${usagePart}`
+			})
+
+			// Per-root-session totals
+			const totals = new Map<string, DelegationUsage[]>()
+			for (const d of delegations) {
+				if (!d.usage || !d.sessionID) continue
+				totals.set(d.sessionID, [...(totals.get(d.sessionID) ?? []), d.usage])
+			}
+			const totalLines = Array.from(totals, ([rootSessionID, usages]) =>
+				scope === "project"
+					? `- ${rootSessionID}: ${formatUsage(sumUsage(usages))}`
+					: `- ${formatUsage(sumUsage(usages))}`,
+			)
+			const totalsSection =
+				totalLines.length > 0 ? `\n\n### Total Usage\n\n${totalLines.join("\n")}` : ""
+
+			return `## Delegations\n\n${lines.join("\n")}${totalsSection}`
+		},
+	})
+}
+
+function createDelegationContinue(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `Ask a follow-up question in a finished delegation's existing sub-agent session.
+The sub-agent keeps its previous context, so use this for "now compare X with Y" style follow-ups
+instead of starting a new delegation cold. Returns immediately; a new notification arrives when the turn finishes.
+The answer is appended to the same artifact as a new "Turn N" section.`,
+		args: {
+			id: tool.schema.string().describe("The delegation ID (e.g., 'elegant-blue-tiger')"),
+			prompt: tool.schema.string().describe("The follow-up prompt. Must be in English."),
+		},
+		async execute(args: { id: string; prompt: string }, toolCtx: ToolContext): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegation_continue requires sessionID. This is a system error."
+			}
+			if (!toolCtx?.messageID) {
+				return "❌ delegation_continue requires messageID. This is a system error."
+			}
+
+			try {
+				const delegation = await manager.continueDelegation({
+					parentSessionID: toolCtx.sessionID,
+					parentMessageID: toolCtx.messageID,
+					parentAgent: toolCtx.agent,
+					id: args.id,
+					prompt: args.prompt,
+				})
+
+				const state = delegation.status === "queued" ? "queued" : "continued"
+				return `Delegation ${state}: ${delegation.id} (turn ${delegation.turns.length + 1})\nAgent: ${delegation.agent}\nYou WILL be notified when complete. Do NOT poll.`
+			} catch (error) {
+				return `❌ Continuation failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
+		},
+	})
+}
+
+function formatDelegationStatus(
+	delegation: DelegationRecord,
+	queuePosition: number | undefined,
+	now: Date,
+): string {
+	const { progress } = delegation
+	const lines = [
+		`**ID:** ${delegation.id}`,
+		`**Agent:** ${delegation.agent}`,
+		`**Status:** ${delegation.status}${queuePosition !== undefined ? ` (queue position ${queuePosition})` : ""}`,
+	]
+
+	if (delegation.status === "waiting" && delegation.dependsOn.length > 0) {
+		lines.push(`**Waiting on:** ${delegation.dependsOn.join(", ")}`)
+	}
+
+	if (delegation.startedAt) {
+		const end = delegation.completedAt ?? now
+		lines.push(
+			`**Elapsed:** ${Math.round((end.getTime() - delegation.startedAt.getTime()) / 1000)}s`,
+		)
+	}
+	if (delegation.status === "running") {
+		const remainingMs = Math.max(0, delegation.timeoutAt.getTime() - now.getTime())
+		lines.push(`**Time remaining:** ${Math.round(remainingMs / 1000)}s`)
+	}
+	if (delegation.attempts.length > 1) {
+		lines.push(`**Attempt:** ${delegation.attempts.length}`)
+	}
+	if (delegation.turns.length > 0) {
+		lines.push(`**Turn:** ${getCurrentTurn(delegation)}`)
+	}
+
+	lines.push(`**Step:** ${progress.currentStep}`)
+	const byName = Object.entries(progress.toolCallsByName)
+		.sort(([, a], [, b]) => b - a)
+		.map(([name, count]) => `${name} ×${count}`)
+	lines.push(
+		`**Tool calls:** ${progress.toolCalls}${byName.length > 0 ? ` (${byName.join(", ")})` : ""}`,
+	)
+	if (progress.lastTool) {
+		lines.push(
+			`**Last tool:** ${progress.lastTool}${progress.lastToolAt ? ` at ${progress.lastToolAt.toISOString()}` : ""}`,
+		)
+	}
+	lines.push(`**Last activity:** ${progress.lastHeartbeatAt.toISOString()}`)
+	if (progress.stalledAt && delegation.status === "running") {
+		lines.push(`**Stalled since:** ${progress.stalledAt.toISOString()}`)
+	}
+	if (progress.lastMessage) {
+		const lastMessage =
+			progress.lastMessage.length > 300
+				? `${progress.lastMessage.slice(0, 300)}...`
+				: progress.lastMessage
+		lines.push(`**Last message:** ${lastMessage}`)
+	}
+	if (delegation.error) {
+		lines.push(`**Error:** ${delegation.error}`)
 	}
 
-	getUnreadCompletedDelegations(rootSessionID: string, limit = 10): DelegationRecord[] {
-		return Array.from(this.delegations.values())
-			.filter((delegation) => delegation.rootSessionID === rootSessionID)
-			.filter((delegation) => this.hasUnreadCompletion(delegation))
-			.sort((a, b) => {
-				const aTime = a.completedAt?.getTime() || 0
-				const bTime = b.completedAt?.getTime() || 0
-				return bTime - aTime
-			})
-			.slice(0, limit)
-	}
+	return lines.join("\n")
+}
+
+function createDelegationStatus(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `Check a delegation's live progress without waiting for it: status, elapsed time,
+time remaining before timeout, current step, tool calls so far and the last tool invoked.
+Returns immediately. Use sparingly - you are notified on completion anyway.`,
+		args: {
+			id: tool.schema.string().describe("The delegation ID (e.g., 'elegant-blue-tiger')"),
+		},
+		async execute(args: { id: string }, toolCtx: ToolContext): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegation_status requires sessionID. This is a system error."
+			}
+
+			try {
+				const delegation = await manager.getDelegationStatus(toolCtx.sessionID, args.id)
+				return formatDelegationStatus(
+					delegation,
+					manager.getQueuePosition(delegation.id),
+					new Date(),
+				)
+			} catch (error) {
+				return `❌ Status check failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
+		},
+	})
+}
+
+function createDelegationCancel(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `Cancel a running delegation by its ID.
+Use this when a delegation was started with the wrong prompt or is no longer needed.
+Partial output is persisted and the usual notification is delivered.`,
+		args: {
+			id: tool.schema.string().describe("The delegation ID (e.g., 'elegant-blue-tiger')"),
+			reason: tool.schema
+				.string()
+				.optional()
+				.describe("Optional reason for cancelling, included in the notification"),
+		},
+		async execute(args: { id: string; reason?: string }, toolCtx: ToolContext): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegation_cancel requires sessionID. This is a system error."
+			}
+
+			try {
+				const delegation = await manager.cancelDelegation(toolCtx.sessionID, args.id, args.reason)
+				return `Delegation cancelled: ${delegation.id}\nPartial output persisted to ${delegation.artifact.filePath}`
+			} catch (error) {
+				return `❌ Cancellation failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
+		},
+	})
+}
+
+interface DelegationSearchArgs {
+	query: string
+	agent?: string
+	status?: DelegationStatus
+	since?: string
+	until?: string
+	limit?: number
+}
 
-	/**
-	 * Get recent completed delegations for compaction injection
-	 */
-	async getRecentCompletedDelegations(
-		sessionID: string,
-		limit: number = 10,
-	): Promise<DelegationListItem[]> {
-		const all = await this.listDelegations(sessionID)
-		return all.filter((d) => isTerminalStatus(d.status)).slice(-limit)
+/**
+ * Parse an optional ISO date filter at boundary. With `endOfDay`, a date without a time
+ * covers that whole (UTC) day, so `until: "2025-01-31"` includes the 31st.
+ */
+function parseDateFilter(
+	value: string | undefined,
+	name: string,
+	endOfDay = false,
+): Date | undefined {
+	if (!value) return undefined
+	const date = new Date(value)
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid ${name} date "${value}". Use ISO format, e.g. "2025-01-31".`)
+	}
+	if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+		date.setUTCHours(23, 59, 59, 999)
 	}
+	return date
+}
 
-	/**
-	 * Log debug messages
-	 */
-	async debugLog(msg: string): Promise<void> {
-		// Only log if debug is enabled (could be env var or static const)
-		// For now, mirroring previous behavior but writing to the new baseDir/debug.log
-		const timestamp = new Date().toISOString()
-		const line = `${timestamp}: ${msg}\n`
-		const debugFile = path.join(this.baseDir, "background-agents-debug.log")
+function createDelegationApply(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `Apply the patch produced by a delegation that ran with isolation: "worktree" to the project checkout.
+Review it first with delegation_read(id, view: "patch"). The patch is checked before anything is written;
+use check: true to only verify it applies cleanly. Applied changes are ordinary uncommitted edits.`,
+		args: {
+			id: tool.schema.string().describe("The delegation ID (e.g., 'elegant-blue-tiger')"),
+			check: tool.schema
+				.boolean()
+				.optional()
+				.describe("Only verify that the patch applies cleanly (default false)"),
+		},
+		async execute(args: { id: string; check?: boolean }, toolCtx: ToolContext): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegation_apply requires sessionID. This is a system error."
+			}
 
-		try {
-			await fs.appendFile(debugFile, line, "utf8")
-		} catch {
-			// Ignore errors, try to ensure dir once if it fails?
-			// Simpler to just ignore for debug logs
-		}
-	}
+			try {
+				const result = await manager.applyPatch(toolCtx.sessionID, args.id, { check: args.check })
+				return result.applied
+					? `Patch applied: ${args.id} (${result.filesChanged} files changed). Review with git diff.`
+					: `Patch applies cleanly: ${args.id} (${result.filesChanged} files). Nothing was written.`
+			} catch (error) {
+				return `❌ Apply failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
+		},
+	})
 }
 
-// ==========================================
-// TOOL CREATORS
-// ==========================================
+function createDelegationPrune(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `Apply the retention policy to stored delegation artifacts across the whole project.
+Removes the oldest artifacts past the age, count or size limits. Pinned, unread and running delegations are never removed.
+Use dryRun to see what would be removed first.`,
+		args: {
+			dryRun: tool.schema
+				.boolean()
+				.optional()
+				.describe("Report what would be removed without deleting anything (default false)"),
+		},
+		async execute(args: { dryRun?: boolean }, toolCtx: ToolContext): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegation_prune requires sessionID. This is a system error."
+			}
 
-interface DelegateArgs {
-	prompt: string
-	agent: string
+			try {
+				const result = await manager.pruneDelegations({ dryRun: args.dryRun })
+				const verb = result.dryRun ? "Would remove" : "Removed"
+				const kb = (bytes: number) => `${Math.round(bytes / 1024)} KB`
+
+				const lines = [
+					`## Delegation Prune${result.dryRun ? " (dry run)" : ""}`,
+					"",
+					`${verb} ${result.removed.length} artifact(s), ${kb(result.removed.reduce((total, r) => total + r.bytes, 0))}.`,
+					`Kept ${result.keptCount} artifact(s), ${kb(result.keptBytes)} (${result.exemptCount} pinned, unread or running).`,
+				]
+				if (result.debugLogRotated) {
+					lines.push(`${result.dryRun ? "Would rotate" : "Rotated"} the debug log.`)
+				}
+				if (result.removed.length > 0) {
+					lines.push("")
+					for (const r of result.removed) {
+						lines.push(
+							`- **${r.id}** (session ${r.rootSessionID}, ${r.date || "unknown date"}) - ${r.reason}`,
+						)
+					}
+				}
+
+				return lines.join("\n")
+			} catch (error) {
+				return `❌ Prune failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
+		},
+	})
 }
 
-function createDelegate(manager: DelegationManager): ReturnType<typeof tool> {
+function createDelegationPin(manager: DelegationManager): ReturnType<typeof tool> {
 	return tool({
-		description: `Delegate a task to an agent. Returns immediately with a readable ID.
+		description: "Pin a delegation so retention pruning never removes its artifact (or unpin it).",
+		args: {
+			id: tool.schema.string().describe("The delegation ID (e.g., 'elegant-blue-tiger')"),
+			pinned: tool.schema.boolean().optional().describe("false to unpin (default true)"),
+		},
+		async execute(args: { id: string; pinned?: boolean }, toolCtx: ToolContext): Promise<string> {
+			if (!toolCtx?.sessionID) {
+				return "❌ delegation_pin requires sessionID. This is a system error."
+			}
 
-Use this for:
-- Research tasks (will be auto-saved)
-- Parallel work that can run in background
-- Any task where you want persistent, retrievable output
+			const pinned = args.pinned ?? true
+			const updated = await manager.setPinned(toolCtx.sessionID, args.id, pinned)
+			if (!updated) {
+				return `❌ Delegation "${args.id}" not found.\n\nUse delegation_list() to see available delegations.`
+			}
+			return `Delegation ${pinned ? "pinned" : "unpinned"}: ${args.id}`
+		},
+	})
+}
 
-On completion, a notification will arrive with the ID and terminal summary.
-Use \`delegation_read\` with the ID to retrieve full persisted output (including after compaction).`,
+function createDelegationSearch(manager: DelegationManager): ReturnType<typeof tool> {
+	return tool({
+		description: `Search persisted delegation results by relevance.
+Matches titles, descriptions, prompts, and full output, returning matching lines as snippets.
+Use this to find prior research before delegating a new task.`,
 		args: {
-			prompt: tool.schema
+			query: tool.schema.string().describe("Words or phrase to search for"),
+			agent: tool.schema.string().optional().describe("Only include delegations run by this agent"),
+			status: tool.schema
+				.enum([
+					"registered",
+					"waiting",
+					"queued",
+					"running",
+					"complete",
+					"error",
+					"cancelled",
+					"timeout",
+				])
+				.optional()
+				.describe("Only include delegations with this status"),
+			since: tool.schema
 				.string()
-				.describe("The full detailed prompt for the agent. Must be in English."),
-			agent: tool.schema
+				.optional()
+				.describe("Only include delegations completed on/after this ISO date"),
+			until: tool.schema
 				.string()
-				.describe(
-					'Agent to delegate to. Must be a read-only sub-agent (edit/write/bash denied), such as "researcher" or "explore".',
-				),
+				.optional()
+				.describe("Only include delegations completed on/before this ISO date"),
+			limit: tool.schema
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe(`Maximum number of results (default ${SEARCH_DEFAULT_LIMIT})`),
 		},
-		async execute(args: DelegateArgs, toolCtx: ToolContext): Promise<string> {
+		async execute(args: DelegationSearchArgs, toolCtx: ToolContext): Promise<string> {
 			if (!toolCtx?.sessionID) {
-				return "❌ delegate requires sessionID. This is a system error."
-			}
-			if (!toolCtx?.messageID) {
-				return "❌ delegate requires messageID. This is a system error."
+				return "❌ delegation_search requires sessionID. This is a system error."
 			}
 
+			let results: DelegationSearchResult[]
 			try {
-				const delegation = await manager.delegate({
-					parentSessionID: toolCtx.sessionID,
-					parentMessageID: toolCtx.messageID,
-					parentAgent: toolCtx.agent,
-					prompt: args.prompt,
+				results = await manager.searchDelegations(toolCtx.sessionID, args.query, {
 					agent: args.agent,
+					status: args.status,
+					since: parseDateFilter(args.since, "since"),
+					until: parseDateFilter(args.until, "until", true),
+					limit: args.limit,
 				})
+			} catch (error) {
+				return `❌ Search failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
 
-				// Get total active count for this parent session
-				const pendingSet = manager.getPendingCount(toolCtx.sessionID)
-				const totalActive = pendingSet
+			if (results.length === 0) {
+				return `No delegations match "${args.query}".`
+			}
 
-				let response = `Delegation started: ${delegation.id}\nAgent: ${args.agent}`
-				if (totalActive > 1) {
-					response += `\n\n${totalActive} delegations now active.`
-				}
-				response += `\nYou WILL be notified when ${totalActive > 1 ? "ALL complete" : "complete"}. Do NOT poll.`
+			const lines = results.map((r) => {
+				const titlePart = r.title ? ` | ${r.title}` : ""
+				const detailPart = [r.agent, r.date].filter(Boolean).join(", ")
+				const descPart = r.description ? `\n  → ${r.description}` : ""
+				const snippetPart = r.snippets.map((snippet) => `\n  > ${snippet}`).join("")
+				return `- **${r.id}**${titlePart} [${r.status}]${detailPart ? ` (${detailPart})` : ""}${descPart}${snippetPart}`
+			})
 
-				return response
-			} catch (error) {
-				// Return validation errors as guidance, not exceptions
-				return `❌ Delegation failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
-			}
+			return `## Search results for "${args.query}"\n\n${lines.join("\n")}\n\nUse delegation_read(id) for full output.`
 		},
 	})
 }
 
-function createDelegationRead(manager: DelegationManager): ReturnType<typeof tool> {
+interface DelegationWaitArgs {
+	ids: string[]
+	mode?: "any" | "all"
+	timeout?: number
+}
+
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 300
+
+function createDelegationWait(manager: DelegationManager): ReturnType<typeof tool> {
 	return tool({
-		description: `Read the output of a delegation by its ID.
-Use this to retrieve results from delegated tasks if the inline notification was lost during compaction.`,
+		description: `Block until any or all of the given delegations reach a terminal state.
+Returns each delegation's status and which artifacts are ready, without their content.
+Only use this when you genuinely cannot proceed without the results; otherwise keep working and rely on notifications.`,
 		args: {
-			id: tool.schema.string().describe("The delegation ID (e.g., 'elegant-blue-tiger')"),
+			ids: tool.schema.array(tool.schema.string()).min(1).describe("Delegation IDs to wait on"),
+			mode: tool.schema
+				.enum(["any", "all"])
+				.optional()
+				.describe(
+					'"any" returns when the first finishes, "all" when every one has (default "all")',
+				),
+			timeout: tool.schema
+				.number()
+				.positive()
+				.max(MAX_TIMEOUT_SECONDS)
+				.optional()
+				.describe(`Maximum seconds to wait (default ${DEFAULT_WAIT_TIMEOUT_SECONDS})`),
 		},
-		async execute(args: { id: string }, toolCtx: ToolContext): Promise<string> {
+		async execute(args: DelegationWaitArgs, toolCtx: ToolContext): Promise<string> {
 			if (!toolCtx?.sessionID) {
-				return "❌ delegation_read requires sessionID. This is a system error."
+				return "❌ delegation_wait requires sessionID. This is a system error."
 			}
 
-			return await manager.readOutput(toolCtx.sessionID, args.id)
+			const mode = args.mode ?? "all"
+			let waited: Awaited<ReturnType<DelegationManager["waitForDelegations"]>>
+			try {
+				waited = await manager.waitForDelegations(
+					toolCtx.sessionID,
+					args.ids,
+					mode,
+					(args.timeout ?? DEFAULT_WAIT_TIMEOUT_SECONDS) * 1000,
+				)
+			} catch (error) {
+				return `❌ Wait failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
+
+			const lines = waited.results.map((r) => {
+				const titlePart = r.title ? ` | ${r.title}` : ""
+				const readyPart = r.ready ? ` → ready: ${r.artifactPath}` : ""
+				return `- **${r.id}**${titlePart} [${r.status}]${readyPart}`
+			})
+			const header =
+				waited.outcome === "timeout" ? `## Wait timed out (${mode})` : `## Wait complete (${mode})`
+
+			return `${header}\n\n${lines.join("\n")}\n\nUse delegation_read(id) to retrieve ready results.`
 		},
 	})
 }
 
-function createDelegationList(manager: DelegationManager): ReturnType<typeof tool> {
+interface DelegateBatchArgs {
+	name?: string
+	items: { prompt: string; agent: string; timeout?: number; priority?: number; model?: string }[]
+}
+
+function createDelegateBatch(manager: DelegationManager): ReturnType<typeof tool> {
 	return tool({
-		description: `List all delegations for the current session.
-Shows both running and completed delegations.`,
-		args: {},
-		async execute(_args: Record<string, never>, toolCtx: ToolContext): Promise<string> {
+		description: `Launch several delegations at once as a named group. Returns immediately with a group ID and member IDs.
+
+Use this to fan out independent research tasks. Members follow the same rules as \`delegate\`
+(read-only sub-agents, concurrency limits, per-member notifications). A separate group-complete
+notification arrives when every member is done; \`delegation_read(groupId)\` returns a combined index.`,
+		args: {
+			name: tool.schema.string().optional().describe("Optional human-readable name for the batch"),
+			items: tool.schema
+				.array(
+					tool.schema.object({
+						prompt: tool.schema
+							.string()
+							.describe("The full detailed prompt for the agent. Must be in English."),
+						agent: tool.schema.string().describe("Read-only sub-agent to delegate to"),
+						timeout: tool.schema
+							.number()
+							.positive()
+							.max(MAX_TIMEOUT_SECONDS)
+							.optional()
+							.describe("Optional timeout in seconds"),
+						priority: tool.schema.number().int().optional().describe("Optional queue priority"),
+						model: tool.schema
+							.string()
+							.optional()
+							.describe('Optional model override as "provider/model"'),
+					}),
+				)
+				.min(1)
+				.describe("Tasks to launch"),
+		},
+		async execute(args: DelegateBatchArgs, toolCtx: ToolContext): Promise<string> {
 			if (!toolCtx?.sessionID) {
-				return "❌ delegation_list requires sessionID. This is a system error."
+				return "❌ delegate_batch requires sessionID. This is a system error."
+			}
+			if (!toolCtx?.messageID) {
+				return "❌ delegate_batch requires messageID. This is a system error."
 			}
 
-			const delegations = await manager.listDelegations(toolCtx.sessionID)
+			try {
+				const { group, members, failures } = await manager.delegateBatch({
+					parentSessionID: toolCtx.sessionID,
+					parentMessageID: toolCtx.messageID,
+					parentAgent: toolCtx.agent,
+					name: args.name,
+					items: args.items.map((item) => ({
+						prompt: item.prompt,
+						agent: item.agent,
+						timeoutMs: item.timeout !== undefined ? item.timeout * 1000 : undefined,
+						priority: item.priority,
+						model: item.model,
+					})),
+				})
 
-			if (delegations.length === 0) {
-				return "No delegations found for this session."
-			}
+				const memberLines = members.map((member) => {
+					const state = isAwaitingStart(member.status) ? member.status : "started"
+					return `- ${member.id} (${member.agent}) ${state}`
+				})
+				const failureLines = failures.map(
+					(failure) => `- #${failure.index + 1} (${failure.agent}) failed: ${failure.error}`,
+				)
 
-			const lines = delegations.map((d) => {
-				const titlePart = d.title ? ` | ${d.title}` : ""
-				const unreadPart = d.unread ? " [unread]" : ""
-				const descPart = d.description ? `\n  → ${d.description}` : ""
-				return `- **${d.id}**${titlePart} [${d.status}]${unreadPart}${descPart}`
-			})
+				let response = `Batch started: ${group.id}${group.name ? ` (${group.name})` : ""}\n\nMembers:\n${memberLines.join("\n")}`
+				if (failureLines.length > 0) {
+					response += `\n\nNot launched:\n${failureLines.join("\n")}`
+				}
+				response += `\n\nYou WILL be notified when the batch completes. Do NOT poll.\nUse delegation_read("${group.id}") for the combined index.`
 
-			return `## Delegations\n\n${lines.join("\n")}`
+				return response
+			} catch (error) {
+				return `❌ Batch delegation failed:\n\n${error instanceof Error ? error.message : "Unknown error"}`
+			}
 		},
 	})
 }
@@ -1617,9 +6822,18 @@ const DELEGATION_RULES = `<task-notification>
 ## Async Delegation
 
 You have tools for parallel background work:
-- \`delegate(prompt, agent)\` - Launch task, returns ID immediately
-- \`delegation_read(id)\` - Retrieve completed result
-- \`delegation_list()\` - List delegations (use sparingly)
+- \`delegate(prompt, agent, timeout?, dependsOn?, isolation?, model?)\` - Launch task, returns ID immediately
+- \`delegate_batch(items, name?)\` - Launch several tasks as one group, returns group ID + member IDs
+- \`delegation_read(id, scope?, view?)\` - Retrieve completed result (or a batch's combined index); view "transcript" shows how it was reached
+- \`delegation_list(scope?)\` - List delegations (use sparingly); scope "project" includes earlier sessions
+- \`delegation_status(id)\` - Check live progress of one delegation without blocking
+- \`delegation_continue(id, prompt)\` - Ask a follow-up in the same sub-agent session
+- \`delegation_cancel(id, reason?)\` - Stop a running delegation you no longer need
+- \`delegation_search(query, filters?)\` - Find prior results before delegating again
+- \`delegation_wait(ids, mode?, timeout?)\` - Block on specific results only when you cannot proceed without them
+- \`delegation_apply(id, check?)\` - Apply a worktree delegation's patch to the checkout (review it first)
+- \`delegation_pin(id, pinned?)\` - Keep an important result from being pruned
+- \`delegation_prune(dryRun?)\` - Remove old stored results per the retention policy (only when asked)
 
 ## Delegation Routing
 
@@ -1629,6 +6843,7 @@ Agents route based on their permissions:
 |------------|------|-----|
 | Read-only sub-agents (edit/write/bash denied) | \`delegate\` | Background session, async |
 | Write-capable sub-agents (any write permission) | \`task\` | Native task, preserves undo/branching |
+| Write-capable sub-agents, in the background | \`delegate\` with isolation: "worktree" | Runs in a throwaway worktree, returns a patch |
 
 **Read-only sub-agents** have edit="deny", write="deny", bash={"*":"deny"}.
 **Write-capable sub-agents** have any write tool enabled.
@@ -1666,6 +6881,9 @@ interface DelegationForContext {
 	startedAt?: Date
 	completedAt?: Date
 	lastHeartbeatAt?: Date
+	stalledAt?: Date
+	timeoutAt?: Date
+	dependsOn?: string[]
 	prompt?: string
 }
 
@@ -1677,9 +6895,18 @@ interface DelegationForContext {
 function formatDelegationContext(
 	running: DelegationForContext[],
 	unreadCompleted: DelegationForContext[],
+	queued: DelegationForContext[] = [],
 ): string {
 	const sections: string[] = ["<delegation-context>"]
 
+	if (running.length > 0 || queued.length > 0) {
+		const waitingCount = queued.filter((d) => d.status === "waiting").length
+		sections.push(
+			`**Pending:** ${running.length} running, ${queued.length - waitingCount} queued, ${waitingCount} waiting on dependencies`,
+		)
+		sections.push("")
+	}
+
 	// Running delegations (if any)
 	if (running.length > 0) {
 		sections.push("## Running Delegations")
@@ -1692,14 +6919,39 @@ function formatDelegationContext(
 			if (d.lastHeartbeatAt) {
 				sections.push(`**Last heartbeat:** ${d.lastHeartbeatAt.toISOString()}`)
 			}
+			if (d.stalledAt) {
+				sections.push(`**Stalled since:** ${d.stalledAt.toISOString()}`)
+			}
+			if (d.timeoutAt) {
+				sections.push(`**Times out:** ${d.timeoutAt.toISOString()}`)
+			}
+			if (d.prompt) {
+				const truncatedPrompt = d.prompt.length > 200 ? `${d.prompt.slice(0, 200)}...` : d.prompt
+				sections.push(`**Prompt:** ${truncatedPrompt}`)
+			}
+			sections.push("")
+		}
+	}
+
+	// Delegations not started yet: queued for a slot or waiting on dependencies (if any)
+	if (queued.length > 0) {
+		sections.push("## Queued Delegations")
+		sections.push("")
+		for (const d of queued) {
+			sections.push(`### \`${d.id}\`${d.agent ? ` (${d.agent})` : ""}`)
+			if (d.status === "waiting" && d.dependsOn?.length) {
+				sections.push(`**Waiting on:** ${d.dependsOn.join(", ")}`)
+			}
 			if (d.prompt) {
 				const truncatedPrompt = d.prompt.length > 200 ? `${d.prompt.slice(0, 200)}...` : d.prompt
 				sections.push(`**Prompt:** ${truncatedPrompt}`)
 			}
 			sections.push("")
 		}
+	}
 
-		// Only include reminder when there ARE running delegations
+	if (running.length > 0 || queued.length > 0) {
+		// Only include reminder when there ARE pending delegations
 		sections.push(
 			"> **Note:** You WILL be notified via `<task-notification>` when delegations complete.",
 		)
@@ -1742,6 +6994,229 @@ function formatDelegationContext(
 	return sections.join("\n")
 }
 
+// ==========================================
+// PLUGIN CONFIGURATION
+// ==========================================
+
+const PROJECT_CONFIG_FILE = path.join(".opencode", "background-agents.json")
+const DEFAULT_STORAGE_ROOT = path.join(os.homedir(), ".local", "share", "opencode", "delegations")
+
+// Durations that arm a timer stay within what setTimeout/setInterval can represent
+const positiveMs = tool.schema.number().int().positive().max(MAX_TIMER_DELAY_MS)
+const nonNegativeMs = tool.schema.number().int().nonnegative().max(MAX_TIMER_DELAY_MS)
+
+/**
+ * Schema for the plugin options in OpenCode config and for
+ * `.opencode/background-agents.json`. Durations are milliseconds, like the manager options.
+ */
+const BackgroundAgentsConfigSchema = tool.schema.strictObject({
+	/** Directory holding per-project delegation storage; `~/` and project-relative paths allowed */
+	storageRoot: tool.schema.string().min(1).optional(),
+	debug: tool.schema.boolean().optional(),
+	maxRunTimeMs: positiveMs.optional(),
+	readPollIntervalMs: positiveMs.optional(),
+	terminalWaitGraceMs: nonNegativeMs.optional(),
+	allCompleteQuietPeriodMs: nonNegativeMs.optional(),
+	maxConcurrentPerSession: tool.schema.number().int().positive().optional(),
+	maxConcurrentPerProject: tool.schema.number().int().positive().optional(),
+	dependencyFailurePolicy: tool.schema.enum(["fail", "continue"]).optional(),
+	stallTimeoutMs: nonNegativeMs.optional(),
+	stallAction: tool.schema.enum(["notify", "abort"]).optional(),
+	persistTranscripts: tool.schema.boolean().optional(),
+	structuredOutputMaxRepairs: tool.schema.number().int().nonnegative().optional(),
+	retryPolicy: tool.schema
+		.strictObject({
+			maxAttempts: tool.schema.number().int().positive().optional(),
+			initialDelayMs: nonNegativeMs.optional(),
+			backoffMultiplier: tool.schema.number().min(1).optional(),
+			maxDelayMs: nonNegativeMs.optional(),
+			/** Case-insensitive regular expression sources */
+			retryableErrorPatterns: tool.schema.array(tool.schema.string().min(1)).optional(),
+		})
+		.optional(),
+	retentionPolicy: tool.schema
+		.strictObject({
+			/** An age, not a timer delay, so it may exceed the timer limit */
+			maxAgeMs: tool.schema.number().int().nonnegative().optional(),
+			maxTotalBytes: tool.schema.number().int().nonnegative().optional(),
+			maxCount: tool.schema.number().int().nonnegative().optional(),
+			maxDebugLogBytes: tool.schema.number().int().nonnegative().optional(),
+			intervalMs: nonNegativeMs.optional(),
+		})
+		.optional(),
+	redactionPolicy: tool.schema
+		.strictObject({
+			enabled: tool.schema.boolean().optional(),
+			highEntropy: tool.schema.boolean().optional(),
+			/** Regular expression sources, matched case-sensitively */
+			patterns: tool.schema.array(tool.schema.string().min(1)).optional(),
+		})
+		.optional(),
+	disabledTools: tool.schema.record(tool.schema.string(), tool.schema.boolean()).optional(),
+})
+
+type BackgroundAgentsConfig = ReturnType<typeof BackgroundAgentsConfigSchema.parse>
+
+/**
+ * Parse one config source at boundary, key by key.
+ * Fail-safe: Unknown or invalid keys are dropped so the rest of the config still applies
+ * Fail-loud: Every dropped key is reported via logWarn
+ */
+function parseBackgroundAgentsConfig(
+	client: OpencodeClient,
+	source: string,
+	raw: unknown,
+): BackgroundAgentsConfig {
+	if (raw === undefined) return {}
+	if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+		logWarn(client, "background-agents", `Ignoring ${source}: expected an object`)
+		return {}
+	}
+
+	const shape = BackgroundAgentsConfigSchema.shape
+	const config: Record<string, unknown> = {}
+	for (const [key, value] of Object.entries(raw)) {
+		if (!Object.hasOwn(shape, key)) {
+			logWarn(client, "background-agents", `Ignoring unknown key "${key}" in ${source}`)
+			continue
+		}
+
+		const result = shape[key as keyof typeof shape].safeParse(value)
+		if (!result.success) {
+			const issues = result.error.issues
+				.map((issue) => `${[key, ...issue.path.map(String)].join(".")}: ${issue.message}`)
+				.join("; ")
+			logWarn(client, "background-agents", `Ignoring invalid "${key}" in ${source}: ${issues}`)
+			continue
+		}
+		config[key] = result.data
+	}
+	return config as BackgroundAgentsConfig
+}
+
+/**
+ * Load plugin config from the options of the plugin's entry in OpenCode config, then
+ * `.opencode/background-agents.json` in the project. Project values win; the nested
+ * policy and tool maps are merged key by key.
+ */
+async function loadBackgroundAgentsConfig(
+	client: OpencodeClient,
+	options: PluginOptions | undefined,
+	directory: string,
+): Promise<BackgroundAgentsConfig> {
+	const projectFile = path.join(directory, PROJECT_CONFIG_FILE)
+	let projectRaw: unknown
+	try {
+		projectRaw = JSON.parse(await fs.readFile(projectFile, "utf8"))
+	} catch (error) {
+		const code = (error as { code?: string }).code
+		if (code !== "ENOENT") {
+			logWarn(
+				client,
+				"background-agents",
+				`Ignoring ${projectFile}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+
+	const fromConfig = parseBackgroundAgentsConfig(client, "plugin options", options)
+	const fromProject = parseBackgroundAgentsConfig(client, projectFile, projectRaw)
+	return {
+		...fromConfig,
+		...fromProject,
+		retryPolicy: { ...fromConfig.retryPolicy, ...fromProject.retryPolicy },
+		retentionPolicy: { ...fromConfig.retentionPolicy, ...fromProject.retentionPolicy },
+		redactionPolicy: { ...fromConfig.redactionPolicy, ...fromProject.redactionPolicy },
+		disabledTools: { ...fromConfig.disabledTools, ...fromProject.disabledTools },
+	}
+}
+
+/**
+ * Resolve the storage root: `~/` expands to the home directory and relative
+ * paths are taken from the repository root of the main checkout.
+ */
+function resolveStorageRoot(storageRoot: string | undefined, topLevel: string): string {
+	if (!storageRoot) return DEFAULT_STORAGE_ROOT
+	if (storageRoot === "~") return os.homedir()
+	if (storageRoot.startsWith("~/")) return path.join(os.homedir(), storageRoot.slice(2))
+	return path.resolve(topLevel, storageRoot)
+}
+
+/**
+ * Compile configured regular expression sources; ones that fail are dropped with a warning.
+ */
+function compileConfigPatterns(
+	client: OpencodeClient,
+	label: string,
+	sources: string[] | undefined,
+	flags: string,
+): RegExp[] | undefined {
+	return sources?.flatMap((source) => {
+		try {
+			return [new RegExp(source, flags)]
+		} catch (error) {
+			logWarn(
+				client,
+				"background-agents",
+				`Ignoring ${label} ${JSON.stringify(source)}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+			return []
+		}
+	})
+}
+
+/**
+ * Map validated config to manager options.
+ * Retry and redaction patterns that fail to compile are dropped with a warning.
+ */
+function toManagerOptions(
+	client: OpencodeClient,
+	config: BackgroundAgentsConfig,
+	directory: string,
+): DelegationManagerOptions {
+	const { retryableErrorPatterns, ...retryPolicy } = config.retryPolicy ?? {}
+	const patterns = compileConfigPatterns(client, "retry pattern", retryableErrorPatterns, "i")
+	const { patterns: redactionSources, ...redactionPolicy } = config.redactionPolicy ?? {}
+	const redactionPatterns = compileConfigPatterns(
+		client,
+		"redaction pattern",
+		redactionSources,
+		"g",
+	)
+
+	for (const name of ["task", "delegate"]) {
+		if (config.disabledTools?.[name] === false) {
+			logWarn(
+				client,
+				"background-agents",
+				`disabledTools.${name} is false: sub-agents can start nested delegations`,
+			)
+		}
+	}
+
+	return {
+		maxRunTimeMs: config.maxRunTimeMs,
+		readPollIntervalMs: config.readPollIntervalMs,
+		terminalWaitGraceMs: config.terminalWaitGraceMs,
+		allCompleteQuietPeriodMs: config.allCompleteQuietPeriodMs,
+		maxConcurrentPerSession: config.maxConcurrentPerSession,
+		maxConcurrentPerProject: config.maxConcurrentPerProject,
+		retryPolicy: patterns ? { ...retryPolicy, retryableErrorPatterns: patterns } : retryPolicy,
+		dependencyFailurePolicy: config.dependencyFailurePolicy,
+		retentionPolicy: config.retentionPolicy,
+		redactionPolicy: redactionPatterns
+			? { ...redactionPolicy, patterns: redactionPatterns }
+			: redactionPolicy,
+		persistTranscripts: config.persistTranscripts,
+		structuredOutputMaxRepairs: config.structuredOutputMaxRepairs,
+		projectDirectory: directory,
+		stallTimeoutMs: config.stallTimeoutMs,
+		stallAction: config.stallAction,
+		debug: config.debug,
+		disabledTools: config.disabledTools,
+	}
+}
+
 // ==========================================
 // PLUGIN EXPORT
 // ==========================================
@@ -1754,29 +7229,66 @@ interface SystemTransformInput {
 	sessionID?: string
 }
 
-const BackgroundAgentsPlugin: Plugin = async (ctx) => {
+const BackgroundAgentsPlugin: Plugin = async (ctx, options) => {
 	const { client, directory } = ctx
 
 	// Create logger early for all components
 	const log = createLogger(client as OpencodeClient)
 
+	// Worktree delegations read config and storage from the user's checkout, not the worktree
+	const mainCheckout = await resolveMainCheckout(directory)
+
+	// Plugin options, overridden by .opencode/background-agents.json
+	const config = await loadBackgroundAgentsConfig(
+		client as OpencodeClient,
+		options,
+		mainCheckout.directory,
+	)
+
 	// Project-level storage directory (shared across sessions)
 	// Uses git root commit hash for cross-worktree consistency
-	const projectId = await getProjectId(directory)
-	const baseDir = path.join(os.homedir(), ".local", "share", "opencode", "delegations", projectId)
+	const projectId = await getProjectId(mainCheckout.topLevel)
+	const baseDir = path.join(
+		resolveStorageRoot(config.storageRoot, mainCheckout.topLevel),
+		projectId,
+	)
 
 	// Ensure base directory exists (for debug logs etc)
 	await fs.mkdir(baseDir, { recursive: true })
 
-	const manager = new DelegationManager(client as OpencodeClient, baseDir, log)
+	const manager = new DelegationManager(
+		client as OpencodeClient,
+		baseDir,
+		log,
+		toManagerOptions(client as OpencodeClient, config, directory),
+	)
+
+	// A worktree delegation's session loads this plugin again for its worktree. That
+	// instance shares the storage directory but must not adopt or prune the main one's work.
+	if (!isDelegationWorktree(directory)) {
+		// Pick up delegations that were in flight when OpenCode last stopped
+		await manager.rehydrate()
+
+		// Prune old artifacts now and periodically (never blocks init)
+		manager.startRetentionSchedule()
+	}
 
 	await manager.debugLog("BackgroundAgentsPlugin initialized with delegation system")
 
 	return {
 		tool: {
 			delegate: createDelegate(manager),
+			delegate_batch: createDelegateBatch(manager),
 			delegation_read: createDelegationRead(manager),
 			delegation_list: createDelegationList(manager),
+			delegation_status: createDelegationStatus(manager),
+			delegation_continue: createDelegationContinue(manager),
+			delegation_cancel: createDelegationCancel(manager),
+			delegation_search: createDelegationSearch(manager),
+			delegation_wait: createDelegationWait(manager),
+			delegation_apply: createDelegationApply(manager),
+			delegation_pin: createDelegationPin(manager),
+			delegation_prune: createDelegationPrune(manager),
 		},
 
 		// Prevent read-only agents from using native task tool (symmetric to delegate enforcement)
@@ -1828,8 +7340,8 @@ const BackgroundAgentsPlugin: Plugin = async (ctx) => {
 		) => {
 			const rootSessionID = await manager.getRootSessionID(input.sessionID)
 
-			// Running delegations in this root session tree
-			const running = manager.getRunningDelegations(rootSessionID).map((d) => ({
+			// Active delegations in this root session tree, split by queued vs running
+			const active = manager.getRunningDelegations(rootSessionID).map((d) => ({
 				id: d.id,
 				agent: d.agent,
 				title: d.title,
@@ -1837,8 +7349,13 @@ const BackgroundAgentsPlugin: Plugin = async (ctx) => {
 				status: d.status,
 				startedAt: d.startedAt,
 				lastHeartbeatAt: d.progress.lastHeartbeatAt,
+				stalledAt: d.progress.stalledAt,
+				timeoutAt: isAwaitingStart(d.status) ? undefined : d.timeoutAt,
+				dependsOn: d.dependsOn,
 				prompt: d.prompt,
 			}))
+			const running = active.filter((d) => !isAwaitingStart(d.status))
+			const queued = active.filter((d) => isAwaitingStart(d.status))
 
 			// Unread completed delegations to carry forward through compaction
 			const unreadCompleted = manager.getUnreadCompletedDelegations(rootSessionID, 10).map((d) => ({
@@ -1851,9 +7368,9 @@ const BackgroundAgentsPlugin: Plugin = async (ctx) => {
 			}))
 
 			// Early exit if nothing to inject
-			if (running.length === 0 && unreadCompleted.length === 0) return
+			if (running.length === 0 && queued.length === 0 && unreadCompleted.length === 0) return
 
-			output.context.push(formatDelegationContext(running, unreadCompleted))
+			output.context.push(formatDelegationContext(running, unreadCompleted, queued))
 		},
 
 		// Event hook
@@ -1890,6 +7407,10 @@ const BackgroundAgentsPlugin: Plugin = async (ctx) => {
 					manager.handleMessageEvent(sessionID, messageText)
 				}
 			}
+
+			if (event.type === "message.part.updated") {
+				manager.handlePartEvent(event.properties.part)
+			}
 		},
 	}
 }